@@ -10,7 +10,9 @@ const external = [
   '@google/generative-ai',
   'fs',
   'path',
-  'fs/promises'
+  'fs/promises',
+  'crypto',
+  'util'
 ];
 
 export default [
@@ -39,6 +41,25 @@ export default [
       })
     ]
   },
+  // CLI executable
+  {
+    input: 'src/bin.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'es',
+      sourcemap: false,
+      banner: '#!/usr/bin/env node'
+    },
+    external,
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false
+      })
+    ]
+  },
   // Type definitions
   {
     input: 'src/index.ts',
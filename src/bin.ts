@@ -0,0 +1,9 @@
+/**
+ * Executable entry point for the libsql-search CLI
+ */
+
+import { runCli } from './cli.js';
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,282 @@
+/**
+ * Embedding caches, so repeated text is not sent to the provider again
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import type { Client } from '@libsql/client';
+import { resolveEmbedder, type EmbeddingOptions } from './embeddings.js';
+import type { PcaProjection } from './pca.js';
+
+/**
+ * Stores embeddings by key. `get` returns null for missing or expired entries.
+ */
+export interface EmbeddingCache {
+  get(key: string): Promise<number[] | null>;
+  set(key: string, embedding: number[]): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+  /** Entries kept before the least recently used is evicted. Default: 1000 */
+  maxEntries?: number;
+  /** Milliseconds an entry stays valid. Default: no expiry */
+  ttl?: number;
+}
+
+export interface LibsqlCacheOptions {
+  /** Default: 'embedding_cache' */
+  tableName?: string;
+  /** Milliseconds an entry stays valid. Default: no expiry */
+  ttl?: number;
+}
+
+export interface FileCacheOptions {
+  /** Directory holding the cache file, created on first write */
+  directory: string;
+  /** Default: 'embeddings.jsonl' */
+  fileName?: string;
+  /** Milliseconds an entry stays valid. Default: no expiry */
+  ttl?: number;
+}
+
+/**
+ * Create an in-process LRU cache
+ */
+export function createMemoryCache(options: MemoryCacheOptions = {}): EmbeddingCache {
+  const { maxEntries = 1000, ttl } = options;
+
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`maxEntries must be a positive integer, got ${maxEntries}`);
+  }
+  assertTtl(ttl);
+
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map<string, { embedding: number[]; expiresAt: number | null }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      entries.delete(key);
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        return null;
+      }
+
+      entries.set(key, entry);
+      return entry.embedding;
+    },
+
+    async set(key, embedding) {
+      entries.delete(key);
+      entries.set(key, { embedding, expiresAt: expiry(ttl) });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  };
+}
+
+/**
+ * Create a cache stored in a libSQL table, shared by every process using the
+ * database. The table is created on first use.
+ */
+export function createLibsqlCache(
+  client: Client,
+  options: LibsqlCacheOptions = {}
+): EmbeddingCache {
+  const { tableName = 'embedding_cache', ttl } = options;
+  assertTtl(ttl);
+
+  let ready: Promise<void> | null = null;
+  const ensureTable = () => {
+    ready ??= client.execute(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        key TEXT PRIMARY KEY,
+        embedding TEXT NOT NULL,
+        expires_at INTEGER,
+        created_at INTEGER NOT NULL
+      )
+    `).then(() => undefined, error => {
+      ready = null;
+      throw error;
+    });
+    return ready;
+  };
+
+  return {
+    async get(key) {
+      await ensureTable();
+
+      const result = await client.execute({
+        sql: `SELECT embedding FROM ${tableName} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+        args: [key, Date.now()]
+      });
+
+      const row = result.rows[0];
+      return row ? JSON.parse(row.embedding as string) as number[] : null;
+    },
+
+    async set(key, embedding) {
+      await ensureTable();
+
+      await client.execute({
+        sql: `INSERT INTO ${tableName} (key, embedding, expires_at, created_at)
+              VALUES (?, ?, ?, ?)
+              ON CONFLICT(key) DO UPDATE SET
+                embedding = excluded.embedding,
+                expires_at = excluded.expires_at,
+                created_at = excluded.created_at`,
+        args: [key, JSON.stringify(embedding), expiry(ttl), Date.now()]
+      });
+    }
+  };
+}
+
+/**
+ * Create a cache stored as JSON lines in a local file, e.g. a directory kept
+ * between CI runs. Entries are appended, and the file is read once on first use.
+ * Delete the file to clear the cache.
+ */
+export function createFileCache(options: FileCacheOptions): EmbeddingCache {
+  const { directory, fileName = 'embeddings.jsonl', ttl } = options;
+  const file = join(directory, fileName);
+  assertTtl(ttl);
+
+  let loaded: Promise<Map<string, CacheLine>> | null = null;
+  const load = () => {
+    loaded ??= readCacheFile(file);
+    return loaded;
+  };
+
+  return {
+    async get(key) {
+      const entry = (await load()).get(key);
+
+      if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+        return null;
+      }
+      return entry.embedding;
+    },
+
+    async set(key, embedding) {
+      const entries = await load();
+      const entry: CacheLine = { key, embedding, expiresAt: expiry(ttl) };
+
+      entries.set(key, entry);
+      await mkdir(directory, { recursive: true });
+      await appendFile(file, JSON.stringify(entry) + '\n', 'utf-8');
+    }
+  };
+}
+
+interface CacheLine {
+  key: string;
+  embedding: number[];
+  expiresAt: number | null;
+}
+
+/**
+ * Read a JSON lines cache file, later lines replacing earlier ones. A missing
+ * file is empty, and lines cut short by an interrupted write are skipped.
+ */
+async function readCacheFile(file: string): Promise<Map<string, CacheLine>> {
+  const entries = new Map<string, CacheLine>();
+
+  let text: string;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return entries;
+    }
+    throw error;
+  }
+
+  for (const line of text.split('\n')) {
+    try {
+      const entry = JSON.parse(line) as CacheLine;
+      if (typeof entry?.key === 'string' && Array.isArray(entry.embedding)) {
+        entries.set(entry.key, entry);
+      }
+    } catch {
+      // Skip blank or partial lines
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Cache key for a search query: a hash of the embedding model (including
+ * dimension reduction and any PCA projection) and the query with Unicode
+ * and whitespace normalized
+ */
+export function queryCacheKey(query: string, embeddingOptions: EmbeddingOptions = {}): string {
+  return cacheKey('query', query.normalize('NFKC').trim().replace(/\s+/g, ' '), embeddingOptions);
+}
+
+/**
+ * Cache key for a document or chunk: a hash of the embedding model and the
+ * exact text that is embedded
+ */
+export function documentCacheKey(text: string, embeddingOptions: EmbeddingOptions = {}): string {
+  return cacheKey('document', text, embeddingOptions);
+}
+
+/**
+ * Hash the input type, model, projection and the text as truncated for embedding
+ */
+function cacheKey(
+  inputType: 'query' | 'document',
+  text: string,
+  embeddingOptions: EmbeddingOptions
+): string {
+  const { maxLength = 8000 } = embeddingOptions;
+  const { modelId } = resolveEmbedder(embeddingOptions);
+  const projection = embeddingOptions.projection ? projectionId(embeddingOptions.projection) : '';
+
+  return createHash('sha256')
+    .update(`${inputType}\n${modelId}\n${projection}\n${text.substring(0, maxLength)}`)
+    .digest('hex');
+}
+
+const projectionIds = new WeakMap<PcaProjection, string>();
+
+/**
+ * The id `fitPca` stored with a projection, or for projections without one a
+ * hash computed once per object, since projections are large
+ */
+function projectionId(projection: PcaProjection): string {
+  if (projection.id) {
+    return projection.id;
+  }
+
+  let id = projectionIds.get(projection);
+
+  if (!id) {
+    id = createHash('sha256').update(JSON.stringify(projection)).digest('hex');
+    projectionIds.set(projection, id);
+  }
+  return id;
+}
+
+/**
+ * Expiry timestamp for an entry written now, or null without a TTL
+ */
+function expiry(ttl: number | undefined): number | null {
+  return ttl === undefined ? null : Date.now() + ttl;
+}
+
+/**
+ * Check that a TTL is a positive duration
+ */
+function assertTtl(ttl: number | undefined): void {
+  if (ttl !== undefined && !(ttl > 0)) {
+    throw new Error(`ttl must be a positive number of milliseconds, got ${ttl}`);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Split markdown documents into passages for chunk-level embeddings
+ */
+
+export interface ChunkingOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface Chunk {
+  index: number;
+  content: string;
+  heading: string | null;
+  anchor: string | null;
+  start: number;
+  end: number;
+}
+
+interface Block {
+  start: number;
+  end: number;
+  heading: string | null;
+  anchor: string | null;
+}
+
+/**
+ * Split markdown into chunks along headings and paragraphs
+ *
+ * Chunks never cross a heading, so each one belongs to a single section.
+ * `start`/`end` are character offsets into the original text.
+ */
+export function chunkMarkdown(
+  text: string,
+  options: ChunkingOptions = {}
+): Chunk[] {
+  const { chunkSize = 1000, chunkOverlap = 100 } = options;
+
+  if (chunkSize <= 0) {
+    throw new Error('chunkSize must be greater than 0');
+  }
+
+  if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error('chunkOverlap must be between 0 and chunkSize');
+  }
+
+  const chunks: Chunk[] = [];
+  const sections = groupBySection(splitBlocks(text));
+
+  for (const blocks of sections) {
+    const { heading, anchor } = blocks[0];
+    let start = blocks[0].start;
+    let end = start;
+
+    const emit = (from: number, to: number) => {
+      const raw = text.slice(from, to);
+      const content = raw.trim();
+      if (content) {
+        const chunkStart = from + raw.length - raw.trimStart().length;
+        chunks.push({
+          index: chunks.length,
+          content,
+          heading,
+          anchor,
+          start: chunkStart,
+          end: chunkStart + content.length
+        });
+      }
+    };
+
+    for (const block of blocks) {
+      if (block.end - start <= chunkSize) {
+        end = block.end;
+        continue;
+      }
+
+      // Flush what we have and carry the tail over as overlap
+      if (end > start) {
+        emit(start, end);
+        start = chunkOverlap > 0
+          ? snapToWordStart(text, Math.max(end - chunkOverlap, start + 1), block.start)
+          : block.start;
+      } else {
+        start = block.start;
+      }
+
+      if (block.end - start <= chunkSize) {
+        end = block.end;
+        continue;
+      }
+
+      // A single block larger than chunkSize is split into fixed windows
+      let windowStart = block.start;
+      while (block.end - windowStart > chunkSize) {
+        const windowEnd = snapToWordEnd(text, windowStart + chunkSize, windowStart);
+        emit(windowStart, windowEnd);
+        windowStart = snapToWordStart(
+          text,
+          Math.max(windowEnd - chunkOverlap, windowStart + 1),
+          windowEnd
+        );
+      }
+      start = windowStart;
+      end = block.end;
+    }
+
+    if (end > start) {
+      emit(start, end);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Turn a heading into a GitHub-style anchor
+ */
+export function slugifyHeading(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Split text into paragraph blocks, tagging each with its section heading.
+ * Heading lines themselves are not part of any block.
+ */
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const anchorCounts = new Map<string, number>();
+
+  let heading: string | null = null;
+  let anchor: string | null = null;
+  let blockStart = -1;
+  let blockEnd = -1;
+  let inFence = false;
+  let offset = 0;
+
+  const flush = () => {
+    if (blockStart !== -1) {
+      blocks.push({ start: blockStart, end: blockEnd, heading, anchor });
+      blockStart = -1;
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = !inFence && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      heading = match[1];
+
+      const base = slugifyHeading(heading);
+      const count = anchorCounts.get(base) ?? 0;
+      anchorCounts.set(base, count + 1);
+      anchor = count === 0 ? base : `${base}-${count}`;
+      continue;
+    }
+
+    if (!inFence && line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    if (blockStart === -1) {
+      blockStart = lineStart;
+    }
+    blockEnd = lineEnd;
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Group consecutive blocks that share a section
+ */
+function groupBySection(blocks: Block[]): Block[][] {
+  const sections: Block[][] = [];
+
+  for (const block of blocks) {
+    const current = sections[sections.length - 1];
+    if (current && current[0].anchor === block.anchor && current[0].heading === block.heading) {
+      current.push(block);
+    } else {
+      sections.push([block]);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Move an offset forward to the start of the next word, without passing `limit`
+ */
+function snapToWordStart(text: string, offset: number, limit: number): number {
+  if (offset <= 0 || /\s/.test(text[offset - 1])) {
+    return offset;
+  }
+
+  let i = offset;
+  while (i < limit && !/\s/.test(text[i])) i++;
+  while (i < limit && /\s/.test(text[i])) i++;
+  return i < limit ? i : offset;
+}
+
+/**
+ * Move an offset back to the end of the previous word, without passing `floor`
+ */
+function snapToWordEnd(text: string, offset: number, floor: number): number {
+  if (offset >= text.length || /\s/.test(text[offset])) {
+    return offset;
+  }
+
+  let i = offset;
+  while (i > floor && !/\s/.test(text[i - 1])) i--;
+  return i > floor ? i : offset;
+}
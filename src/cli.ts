@@ -0,0 +1,649 @@
+/**
+ * Command-line interface: libsql-search <init|index|search|stats|rollback|migrate>
+ */
+
+import { parseArgs } from 'util';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { createTable, indexContent, tableExists, type IndexResult } from './indexer.js';
+import { search, type SearchMode } from './search.js';
+import { rollbackIndex } from './generations.js';
+import { migrate } from './migrations.js';
+import { getIndexManifest } from './manifest.js';
+import { resolveEmbedder, type DimensionReduction, type EmbeddingOptions } from './embeddings.js';
+import { assertVectorType, getVectorStorage, type VectorType } from './vectors.js';
+import { createFileCache } from './cache.js';
+import { watchContent } from './watcher.js';
+import { fieldSql, resolveSchema, type TableSchema } from './schema.js';
+import type { ChunkingOptions } from './chunker.js';
+import type { NormalizeOptions } from './normalize.js';
+
+/**
+ * Settings read from `libsql-search.config.json` or the `--config` file.
+ * Flags take precedence over environment variables, which take precedence
+ * over the config file.
+ */
+export interface CliConfig {
+  url?: string;
+  authToken?: string;
+  tableName?: string;
+  /** Column mapping of the table, e.g. for an existing table */
+  schema?: TableSchema;
+  dimensions?: number;
+  contentPath?: string;
+  embeddingOptions?: EmbeddingOptions;
+  fileExtensions?: string[];
+  exclude?: string[];
+  chunking?: boolean | ChunkingOptions;
+  normalize?: boolean | NormalizeOptions;
+  fts?: boolean;
+  vectorType?: VectorType;
+  rescore?: boolean;
+  incremental?: boolean;
+  /** Build full re-indexes in staging tables and swap them in (default true) */
+  atomic?: boolean;
+  /** Directory for the document embedding cache */
+  embeddingCache?: string;
+}
+
+export interface CliIO {
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+  env?: Record<string, string | undefined>;
+  cwd?: string;
+  /** Stops `index --watch` (default: SIGINT or SIGTERM) */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONFIG_FILE = 'libsql-search.config.json';
+
+const USAGE = `Usage: libsql-search <command> [options]
+
+Commands:
+  init                 Create the table (and --chunks / --fts companions)
+  index [path]         Index content from path (default: ./content)
+  search <query>       Search and print ranked results
+  stats                Show row counts, folders and dimensions
+  rollback             Restore the table replaced by the last full index
+  migrate              Upgrade the table to the current schema version
+
+Options:
+  --url <url>          Database URL (env: TURSO_DATABASE_URL)
+  --auth-token <token> Auth token (env: TURSO_AUTH_TOKEN)
+  --config <file>      Config file (default: ${DEFAULT_CONFIG_FILE})
+  --table <name>       Table name (default: articles)
+  --provider <name>    Embedding provider (env: EMBEDDING_PROVIDER)
+  --api-key <key>      Provider API key (env: GEMINI_API_KEY, OPENAI_API_KEY)
+  --model <name>       Local model, e.g. Xenova/bge-small-en-v1.5
+                       (env: EMBEDDING_MODEL)
+  --cache-dir <dir>    Local model cache directory (env: EMBEDDING_CACHE_DIR)
+  --dimensions <n>     Embedding dimensions (env: EMBEDDING_DIMENSIONS,
+                       default: the model's native size)
+  --reduction <method> Resize with pad, truncate or pca
+  --chunks             Create or index passage chunks
+  --chunk-size <n>     Chunk size in characters (implies --chunks)
+  --chunk-overlap <n>  Chunk overlap in characters (implies --chunks)
+  --fts                Create the full-text table for hybrid search
+  --vector-type <type> Store vectors as F32, F16, F8 or F1BIT (default: F32)
+  --rescore            Keep float32 copies to rerank compressed vectors
+  --incremental        Only re-embed changed files
+  --watch              Keep running and re-index files as they change
+  --dry-run            Print the SQL migrate would run without running it
+  --embedding-cache <dir>
+                       Reuse document embeddings stored in this directory
+                       (env: EMBEDDING_CACHE)
+  --ext <ext>          File extension to index (repeatable)
+  --exclude <dir>      Directory to skip (repeatable)
+  --limit <n>          Number of search results (default: 10)
+  --offset <n>         Number of search results to skip
+  --min-score <n>      Drop search results scoring below this (0-1)
+  --folder <folder>    Only search this folder
+  --mode <mode>        Search mode: vector or hybrid
+  --json               Print JSON instead of text
+  -h, --help           Show this help`;
+
+/**
+ * A usage or configuration error, reported without a stack trace
+ */
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+interface CliContext {
+  client: Client;
+  config: CliConfig;
+  values: CliValues;
+  env: Record<string, string | undefined>;
+  tableName: string;
+  dimensions: number;
+  embeddingOptions: EmbeddingOptions;
+  out: (text: string) => void;
+  err: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run the CLI with the given arguments and return the process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = {}): Promise<number> {
+  const {
+    stdout = text => console.log(text),
+    stderr = text => console.error(text),
+    env = process.env,
+    cwd = process.cwd(),
+    signal
+  } = io;
+
+  let client: Client | null = null;
+
+  try {
+    const { values, positionals } = parseCliArgs(argv);
+    const [command, ...rest] = positionals;
+
+    if (values.help || !command) {
+      stdout(USAGE);
+      return command || values.help ? 0 : 1;
+    }
+
+    if (!['init', 'index', 'search', 'stats', 'rollback', 'migrate'].includes(command)) {
+      throw new CliError(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+
+    const config = await loadConfig(values.config, cwd);
+
+    const url = values.url ?? env.TURSO_DATABASE_URL ?? config.url;
+    if (!url) {
+      throw new CliError('Database URL is required. Pass --url or set TURSO_DATABASE_URL.');
+    }
+
+    client = createClient({
+      url,
+      authToken: values['auth-token'] ?? env.TURSO_AUTH_TOKEN ?? config.authToken
+    });
+
+    const reduction = values.reduction ?? config.embeddingOptions?.reduction;
+    if (reduction !== undefined && !['pad', 'truncate', 'pca'].includes(reduction)) {
+      throw new CliError(`Invalid --reduction: ${reduction}. Use pad, truncate or pca.`);
+    }
+
+    const embeddingOptions: EmbeddingOptions = {
+      ...config.embeddingOptions,
+      provider: values.provider ?? env.EMBEDDING_PROVIDER ?? config.embeddingOptions?.provider ?? 'local',
+      apiKey: values['api-key'] ?? config.embeddingOptions?.apiKey,
+      model: values.model ?? env.EMBEDDING_MODEL ?? config.embeddingOptions?.model,
+      cacheDir: values['cache-dir'] ?? env.EMBEDDING_CACHE_DIR ?? config.embeddingOptions?.cacheDir,
+      dimensions: parseInteger(values.dimensions ?? env.EMBEDDING_DIMENSIONS, 'dimensions')
+        ?? config.dimensions
+        ?? config.embeddingOptions?.dimensions,
+      reduction: reduction as DimensionReduction | undefined
+    };
+
+    const context: CliContext = {
+      client,
+      config,
+      values,
+      env,
+      tableName: values.table ?? config.tableName ?? 'articles',
+      dimensions: resolveEmbedder(embeddingOptions).dimensions,
+      embeddingOptions,
+      out: stdout,
+      err: stderr,
+      signal
+    };
+
+    switch (command) {
+      case 'init':
+        return await runInit(context);
+      case 'index':
+        return await runIndex(context, rest[0]);
+      case 'search':
+        return await runSearch(context, rest.join(' '));
+      case 'rollback':
+        return await runRollback(context);
+      case 'migrate':
+        return await runMigrate(context);
+      default:
+        return await runStats(context);
+    }
+  } catch (error) {
+    stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    client?.close();
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      'auth-token': { type: 'string' },
+      config: { type: 'string' },
+      table: { type: 'string' },
+      provider: { type: 'string' },
+      'api-key': { type: 'string' },
+      model: { type: 'string' },
+      'cache-dir': { type: 'string' },
+      dimensions: { type: 'string' },
+      reduction: { type: 'string' },
+      chunks: { type: 'boolean' },
+      'chunk-size': { type: 'string' },
+      'chunk-overlap': { type: 'string' },
+      fts: { type: 'boolean' },
+      'vector-type': { type: 'string' },
+      rescore: { type: 'boolean' },
+      incremental: { type: 'boolean' },
+      watch: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      'embedding-cache': { type: 'string' },
+      ext: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      limit: { type: 'string' },
+      offset: { type: 'string' },
+      'min-score': { type: 'string' },
+      folder: { type: 'string' },
+      mode: { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+/**
+ * Read the config file, which is optional unless given with --config
+ */
+async function loadConfig(path: string | undefined, cwd: string): Promise<CliConfig> {
+  const file = resolve(cwd, path ?? DEFAULT_CONFIG_FILE);
+
+  let text: string;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' && path === undefined) {
+      return {};
+    }
+    throw new CliError(`Cannot read config file ${file}: ${error.message}`);
+  }
+
+  try {
+    return JSON.parse(text) as CliConfig;
+  } catch (error: any) {
+    throw new CliError(`Invalid config file ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Create the table and any requested companion tables
+ */
+async function runInit(context: CliContext): Promise<number> {
+  const { client, tableName, dimensions, embeddingOptions, out } = context;
+  const chunks = Boolean(resolveChunking(context));
+  const fts = context.values.fts ?? context.config.fts ?? false;
+
+  await createTable(client, tableName, dimensions, {
+    chunks,
+    fts,
+    embeddingOptions,
+    schema: context.config.schema,
+    ...resolveStorage(context)
+  });
+
+  const extras = [chunks && `${tableName}_chunks`, fts && `${tableName}_fts`].filter(Boolean);
+  out(`Created ${tableName} (${dimensions} dimensions)${extras.length > 0 ? ` with ${extras.join(', ')}` : ''}`);
+  return 0;
+}
+
+/**
+ * Index a content directory, failing when any file fails. With --watch,
+ * re-index changed files until interrupted.
+ */
+async function runIndex(context: CliContext, path: string | undefined): Promise<number> {
+  const { client, config, values, env, tableName, dimensions, embeddingOptions, out, err } = context;
+  const chunking = resolveChunking(context);
+  const fts = values.fts ?? config.fts ?? false;
+  const cacheDirectory = values['embedding-cache'] ?? env.EMBEDDING_CACHE ?? config.embeddingCache;
+
+  const storage = resolveStorage(context);
+
+  await createTable(client, tableName, dimensions, {
+    chunks: Boolean(chunking),
+    fts,
+    embeddingOptions,
+    schema: config.schema,
+    ...storage
+  });
+
+  const indexerOptions = {
+    client,
+    contentPath: path ?? config.contentPath ?? './content',
+    embeddingOptions,
+    fileExtensions: values.ext ?? config.fileExtensions,
+    exclude: values.exclude ?? config.exclude,
+    tableName,
+    schema: config.schema,
+    incremental: values.incremental ?? config.incremental ?? false,
+    atomic: config.atomic,
+    chunking,
+    normalize: config.normalize,
+    embeddingCache: cacheDirectory ? createFileCache({ directory: cacheDirectory }) : undefined,
+    vectorType: storage.vectorType,
+    onProgress: values.json ? undefined : (current: number, total: number, file: string) => {
+      err(`[${current}/${total}] ${file}`);
+    }
+  };
+
+  const result = await indexContent(indexerOptions);
+
+  if (values.json) {
+    out(JSON.stringify(result, null, 2));
+  } else {
+    out(formatIndexResult(result));
+  }
+
+  if (!values.watch) {
+    return result.failed > 0 ? 1 : 0;
+  }
+
+  const watcher = watchContent({
+    ...indexerOptions,
+    onUpdate: ({ paths, result }) => {
+      out(values.json ? JSON.stringify({ paths, ...result }) : `${paths.join(', ')}: ${formatIndexResult(result)}`);
+    },
+    onError: error => err(`Error: ${error instanceof Error ? error.message : String(error)}`)
+  });
+
+  err(`Watching ${indexerOptions.contentPath} for changes`);
+  await untilStopped(context.signal);
+  await watcher.close();
+  return 0;
+}
+
+function formatIndexResult(result: IndexResult): string {
+  return `Indexed ${result.success}/${result.total} files: ${result.added} added, ` +
+    `${result.updated} updated, ${result.unchanged} unchanged, ${result.deleted} deleted, ` +
+    `${result.failed} failed`;
+}
+
+/**
+ * Wait until `signal` aborts, or without one until SIGINT or SIGTERM
+ */
+function untilStopped(signal: AbortSignal | undefined): Promise<void> {
+  return new Promise(resolve => {
+    if (signal) {
+      if (signal.aborted) {
+        resolve();
+      }
+      signal.addEventListener('abort', () => resolve(), { once: true });
+      return;
+    }
+
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+}
+
+/**
+ * Swap the previous generation of the table back in
+ */
+async function runRollback(context: CliContext): Promise<number> {
+  const { client, tableName, out } = context;
+
+  await rollbackIndex(client, tableName);
+
+  out(`Restored the previous generation of ${tableName}`);
+  return 0;
+}
+
+/**
+ * Apply pending migrations, or print their SQL with --dry-run. An explicit
+ * --dimensions different from the stored size re-embeds the table.
+ */
+async function runMigrate(context: CliContext): Promise<number> {
+  const { client, config, values, tableName, embeddingOptions, out } = context;
+
+  const result = await migrate(client, {
+    tableName,
+    schema: config.schema,
+    dimensions: embeddingOptions.dimensions,
+    embeddingOptions,
+    normalize: config.normalize,
+    dryRun: values['dry-run'] ?? false
+  });
+
+  if (values.json) {
+    out(JSON.stringify(result, null, 2));
+    return 0;
+  }
+
+  if (result.statements.length === 0) {
+    out(`${tableName} is up to date (schema version ${result.toVersion})`);
+    return 0;
+  }
+
+  if (result.dryRun) {
+    out(result.statements.map(statement => `${statement};`).join('\n\n'));
+    if (result.resized) {
+      out(`\n-- Then re-embed every article and chunk at ${result.resized.to} dimensions`);
+    }
+    return 0;
+  }
+
+  out(`Migrated ${tableName} from schema version ${result.fromVersion} to ${result.toVersion}`);
+  if (result.resized) {
+    out(`Re-embedded ${result.reembedded} articles and chunks at ${result.resized.to} dimensions`);
+  }
+  return 0;
+}
+
+/**
+ * Search and print results as a table or JSON
+ */
+async function runSearch(context: CliContext, query: string): Promise<number> {
+  const { client, config, values, tableName, embeddingOptions, out } = context;
+
+  if (!query) {
+    throw new CliError('A search query is required: libsql-search search <query>');
+  }
+
+  const mode = values.mode ?? 'vector';
+  if (mode !== 'vector' && mode !== 'hybrid') {
+    throw new CliError(`Invalid --mode: ${mode}. Use vector or hybrid.`);
+  }
+
+  const results = await search({
+    client,
+    query,
+    limit: parseInteger(values.limit, 'limit') ?? 10,
+    offset: parseInteger(values.offset, 'offset', true) ?? 0,
+    minScore: parseScore(values['min-score']),
+    tableName,
+    schema: config.schema,
+    embeddingOptions,
+    chunks: values.chunks ?? false,
+    filter: values.folder ? { folder: values.folder } : undefined,
+    mode: mode as SearchMode
+  });
+
+  if (values.json) {
+    out(JSON.stringify(results, null, 2));
+    return 0;
+  }
+
+  if (results.length === 0) {
+    out('No results');
+    return 0;
+  }
+
+  out(formatTable(
+    ['#', mode === 'hybrid' ? 'score' : 'distance', 'slug', 'title'],
+    results.map((result, i) => [
+      String(i + 1),
+      (mode === 'hybrid' ? result.score : result.distance).toFixed(4),
+      result.chunk?.anchor ? `${result.slug}#${result.chunk.anchor}` : result.slug,
+      result.title
+    ])
+  ));
+  return 0;
+}
+
+/**
+ * Print row counts, folders, the embedding dimensions and the indexed model
+ */
+async function runStats(context: CliContext): Promise<number> {
+  const { client, config, tableName, values, out } = context;
+
+  if (!await tableExists(client, tableName)) {
+    throw new CliError(`Table ${tableName} does not exist. Run libsql-search init first.`);
+  }
+
+  const columns = resolveSchema(config.schema);
+  const storage = await getVectorStorage(client, tableName, columns);
+  const articles = await countRows(client, tableName);
+  const chunks = await tableExists(client, `${tableName}_chunks`)
+    ? await countRows(client, `${tableName}_chunks`)
+    : null;
+  const fts = await tableExists(client, `${tableName}_fts`);
+  const manifest = await getIndexManifest(client, tableName, { projection: false });
+
+  const folderRows = await client.execute(
+    `SELECT ${fieldSql(columns, 'folder')} AS folder, COUNT(*) AS count FROM ${tableName} GROUP BY 1 ORDER BY 1`
+  );
+  const folders = folderRows.rows.map(row => ({
+    folder: row.folder as string,
+    count: Number(row.count)
+  }));
+
+  const stats = {
+    table: tableName,
+    dimensions: storage?.dimensions ?? null,
+    vectorType: storage?.type ?? null,
+    rescore: storage?.rescore ?? false,
+    articles,
+    chunks,
+    fts,
+    // A PCA projection is too large to print
+    manifest: manifest && { ...manifest, projection: undefined },
+    folders
+  };
+
+  if (values.json) {
+    out(JSON.stringify(stats, null, 2));
+    return 0;
+  }
+
+  out([
+    `Table:      ${stats.table}`,
+    `Dimensions: ${stats.dimensions ?? 'unknown'}`,
+    `Vectors:    ${stats.vectorType ?? 'unknown'}${stats.rescore ? ' (float32 copies for rescoring)' : ''}`,
+    `Articles:   ${stats.articles}`,
+    `Chunks:     ${stats.chunks ?? 'no chunks table'}`,
+    `Full-text:  ${stats.fts ? 'yes' : 'no'}`,
+    `Model:      ${manifest ? manifest.modelId : 'unknown'}`,
+    `Indexed at: ${manifest?.indexedAt ?? 'never'}`,
+    '',
+    folders.length > 0
+      ? formatTable(['folder', 'articles'], folders.map(({ folder, count }) => [folder, String(count)]))
+      : 'No folders'
+  ].join('\n'));
+  return 0;
+}
+
+/**
+ * Combine --chunks, --chunk-size and --chunk-overlap with the config file
+ */
+function resolveChunking(context: CliContext): boolean | ChunkingOptions {
+  const { values, config } = context;
+  const chunkSize = parseInteger(values['chunk-size'], 'chunk-size');
+  const chunkOverlap = parseInteger(values['chunk-overlap'], 'chunk-overlap', true);
+
+  if (chunkSize !== undefined || chunkOverlap !== undefined) {
+    return {
+      ...(typeof config.chunking === 'object' ? config.chunking : {}),
+      ...(chunkSize !== undefined && { chunkSize }),
+      ...(chunkOverlap !== undefined && { chunkOverlap })
+    };
+  }
+
+  return values.chunks ?? config.chunking ?? false;
+}
+
+/**
+ * Combine --vector-type and --rescore with the config file
+ */
+function resolveStorage(context: CliContext): { vectorType?: VectorType; rescore: boolean } {
+  const { values, config } = context;
+  const vectorType = values['vector-type']?.toUpperCase() ?? config.vectorType;
+
+  if (vectorType !== undefined) {
+    try {
+      assertVectorType(vectorType);
+    } catch {
+      throw new CliError(`Invalid --vector-type: ${vectorType}. Use F32, F16, F8 or F1BIT.`);
+    }
+  }
+
+  return { vectorType, rescore: values.rescore ?? config.rescore ?? false };
+}
+
+async function countRows(client: Client, table: string): Promise<number> {
+  const result = await client.execute(`SELECT COUNT(*) AS count FROM ${table}`);
+  return Number(result.rows[0].count);
+}
+
+/**
+ * Parse an integer flag, which must be positive unless `allowZero` is set
+ */
+function parseInteger(value: string | undefined, name: string, allowZero = false): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < (allowZero ? 0 : 1)) {
+    throw new CliError(
+      `--${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer, got ${value}\n\n${USAGE}`
+    );
+  }
+  return number;
+}
+
+/**
+ * Parse --min-score, a number from 0 to 1
+ */
+function parseScore(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (value.trim() === '' || !(number >= 0 && number <= 1)) {
+    throw new CliError(`--min-score must be a number from 0 to 1, got ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Format rows as left-aligned columns
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
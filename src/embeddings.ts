@@ -1,26 +1,216 @@
 /**
  * Multi-provider embedding generation
- * Supports local (Xenova), Gemini, and OpenAI
+ * Supports local (Xenova), Gemini, OpenAI and registered custom providers
  */
 
 import { pipeline } from '@xenova/transformers';
+import {
+  EmbeddingApiError,
+  createRateLimiter,
+  mapConcurrent,
+  parseRetryAfter,
+  withRetry,
+  type RateLimiter,
+  type RetryOptions
+} from './retry.js';
+import { normalizeVector, projectPca, type PcaProjection } from './pca.js';
 
-export type EmbeddingProvider = 'local' | 'gemini' | 'openai';
+export type EmbeddingProvider = 'local' | 'gemini' | 'openai' | (string & {});
+
+export type DimensionReduction = 'pad' | 'truncate' | 'pca';
+
+/** Whether text is a search query or a document being indexed */
+export type EmbeddingInputType = 'query' | 'document';
 
 export interface EmbeddingOptions {
-  provider?: EmbeddingProvider;
+  provider?: EmbeddingProvider | Embedder;
   apiKey?: string;
+  /** Local feature-extraction model (default Xenova/all-MiniLM-L6-v2) */
+  model?: string;
+  /** Load 8-bit quantized local weights (default true) */
+  quantized?: boolean;
+  /** Directory for downloaded local models, e.g. a pre-populated CI cache */
+  cacheDir?: string;
   dimensions?: number;
+  reduction?: DimensionReduction;
+  projection?: PcaProjection;
   maxLength?: number;
+  /** Selects the model's query or document prefix (default 'document') */
+  inputType?: EmbeddingInputType;
+}
+
+export interface BatchOptions extends RetryOptions {
+  batchSize?: number;
+  concurrency?: number;
+  requestsPerMinute?: number;
+  onBatch?: (completed: number, total: number) => void;
+}
+
+/**
+ * An embedding model. Implement this to plug in another service and pass it
+ * as `provider`, or register a factory under a name.
+ */
+export interface Embedder {
+  /** Stable id of the model and output size, used to detect stale rows */
+  modelId: string;
+  /** Length of the returned vectors */
+  dimensions: number;
+  /** How vectors are normalized, recorded in the index manifest (e.g. 'l2') */
+  normalization?: string;
+  /** Whether leading dimensions can be kept on their own (Matryoshka-trained) */
+  matryoshka?: boolean;
+  /** Prepended to search queries, for models trained with instructions */
+  queryPrefix?: string;
+  /** Prepended to indexed documents */
+  documentPrefix?: string;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+  /** Batch defaults, overridden by BatchOptions */
+  batchSize?: number;
+  concurrency?: number;
+  requestsPerMinute?: number;
 }
 
+export type EmbedderFactory = (options: EmbeddingOptions) => Embedder;
+
 interface ProviderCache {
-  local?: any;
+  local: Map<string, Promise<any>>;
   gemini?: any;
   openai?: any;
 }
 
-const providerCache: ProviderCache = {};
+interface LocalModel {
+  dimensions: number;
+  pooling: 'mean' | 'cls';
+  matryoshka?: boolean;
+  queryPrefix?: string;
+  documentPrefix?: string;
+}
+
+const BGE_QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+
+/**
+ * Feature-extraction models known to work with the local provider, with
+ * their native size, pooling and the prefixes they were trained with
+ */
+const localModels: Record<string, LocalModel> = {
+  'Xenova/all-MiniLM-L6-v2': { dimensions: 384, pooling: 'mean' },
+  'Xenova/all-MiniLM-L12-v2': { dimensions: 384, pooling: 'mean' },
+  'Xenova/bge-small-en-v1.5': { dimensions: 384, pooling: 'cls', queryPrefix: BGE_QUERY_PREFIX },
+  'Xenova/bge-base-en-v1.5': { dimensions: 768, pooling: 'cls', queryPrefix: BGE_QUERY_PREFIX },
+  'Xenova/e5-small-v2': { dimensions: 384, pooling: 'mean', queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+  'Xenova/e5-base-v2': { dimensions: 768, pooling: 'mean', queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+  'Xenova/multilingual-e5-small': { dimensions: 384, pooling: 'mean', queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+  'nomic-ai/nomic-embed-text-v1.5': {
+    dimensions: 768,
+    pooling: 'mean',
+    matryoshka: true,
+    queryPrefix: 'search_query: ',
+    documentPrefix: 'search_document: '
+  }
+};
+
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const providerCache: ProviderCache = { local: new Map() };
+
+const providers = new Map<string, EmbedderFactory>();
+
+const rateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Register an embedding provider under a name usable as `provider`.
+ * Registering an existing name replaces it.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbedderFactory): void {
+  if (!name) {
+    throw new Error('Embedding provider name is required');
+  }
+
+  providers.set(name, factory);
+}
+
+/**
+ * Resolve the options' provider name or instance to an embedder producing
+ * `dimensions`-length vectors, reduced or padded from the model's native size
+ */
+export function resolveEmbedder(options: EmbeddingOptions = {}): Embedder {
+  const { provider = 'local' } = options;
+
+  if (typeof provider !== 'string') {
+    return reduceDimensions(provider, options);
+  }
+
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+
+  return reduceDimensions(factory(options), options);
+}
+
+/**
+ * Wrap an embedder so it returns `dimensions`-length vectors
+ *
+ * - `pad` appends zeros to reach a larger size
+ * - `truncate` keeps the leading dimensions and re-normalizes, which is only
+ *   meaningful for Matryoshka-trained models
+ * - `pca` projects with a projection fitted on the corpus
+ *
+ * Without `reduction`, larger sizes are padded and smaller sizes are
+ * truncated for Matryoshka models; other models must opt into `pca`.
+ */
+function reduceDimensions(embedder: Embedder, options: EmbeddingOptions): Embedder {
+  const { dimensions = embedder.dimensions, projection } = options;
+
+  if (dimensions === embedder.dimensions) {
+    return embedder;
+  }
+
+  const native = `${embedder.modelId} produces ${embedder.dimensions} dimensions`;
+  const reduction = options.reduction
+    ?? (dimensions > embedder.dimensions ? 'pad' : embedder.matryoshka ? 'truncate' : null);
+
+  if (!reduction) {
+    throw new Error(
+      `${native} and is not Matryoshka-trained. Use reduction: 'pca' to reduce it to ${dimensions}.`
+    );
+  }
+  if (reduction === 'pad' && dimensions < embedder.dimensions) {
+    throw new Error(`${native}; reduction 'pad' cannot reduce it to ${dimensions}.`);
+  }
+  if (reduction !== 'pad' && dimensions > embedder.dimensions) {
+    throw new Error(`${native}; reduction '${reduction}' cannot expand it to ${dimensions}.`);
+  }
+  if (reduction === 'truncate' && !embedder.matryoshka) {
+    throw new Error(`${native} and is not Matryoshka-trained, so it cannot be truncated.`);
+  }
+
+  const reduce = (embedding: number[]): number[] => {
+    switch (reduction) {
+      case 'pad':
+        return padEmbedding(embedding, dimensions);
+      case 'truncate':
+        return normalizeVector(embedding.slice(0, dimensions));
+      case 'pca':
+        if (!projection) {
+          throw new Error(
+            'PCA reduction requires a fitted projection. Index with indexContent, ' +
+            'which fits and stores it, or pass embeddingOptions.projection.'
+          );
+        }
+        return projectPca(projection, embedding);
+    }
+  };
+
+  return {
+    ...embedder,
+    modelId: `${embedder.modelId}>${reduction}:${dimensions}`,
+    dimensions,
+    embed: async text => reduce(await embedder.embed(text)),
+    embedBatch: async texts => (await embedder.embedBatch(texts)).map(reduce)
+  };
+}
 
 /**
  * Generate embeddings using the specified provider
@@ -29,48 +219,230 @@ export async function generateEmbedding(
   text: string,
   options: EmbeddingOptions = {}
 ): Promise<number[]> {
+  const { maxLength = 8000 } = options;
+  const embedder = resolveEmbedder(options);
+  const prefix = getInputPrefix(embedder, options);
+
+  return embedder.embed(prefix + text.substring(0, maxLength));
+}
+
+/**
+ * Generate embeddings for many texts using each provider's batch endpoint
+ *
+ * Texts are split into batches of `batchSize`, sent with up to `concurrency`
+ * requests in flight, spaced by the provider's rate limit, and retried with
+ * exponential backoff on 429/5xx responses. Results keep the input order.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  options: EmbeddingOptions & BatchOptions = {}
+): Promise<number[][]> {
+  const { maxLength = 8000, onBatch } = options;
+  const embedder = resolveEmbedder(options);
+
   const {
-    provider = 'local',
-    apiKey,
-    dimensions = 768,
-    maxLength = 8000
+    batchSize = embedder.batchSize ?? 16,
+    concurrency = embedder.concurrency ?? 1,
+    requestsPerMinute = embedder.requestsPerMinute
   } = options;
+  assertBatchOptions({ batchSize, concurrency, requestsPerMinute });
+
+  const prefix = getInputPrefix(embedder, options);
+  const batches: string[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    batches.push(texts.slice(i, i + batchSize).map(text => prefix + text.substring(0, maxLength)));
+  }
+
+  const limiter = requestsPerMinute ? getRateLimiter(embedder.modelId, requestsPerMinute) : null;
+  let completed = 0;
+
+  const results = await mapConcurrent(batches, concurrency, batch =>
+    withRetry(async () => {
+      await limiter?.acquire();
+      return embedder.embedBatch(batch);
+    }, options).then(embeddings => {
+      completed += batch.length;
+      onBatch?.(completed, texts.length);
+      return embeddings;
+    })
+  );
 
-  const truncated = text.substring(0, maxLength);
+  return results.flat();
+}
 
-  switch (provider) {
-    case 'local':
-      return generateLocalEmbedding(truncated, dimensions);
-    case 'gemini':
-      return generateGeminiEmbedding(truncated, apiKey);
-    case 'openai':
-      return generateOpenAIEmbedding(truncated, apiKey, dimensions);
-    default:
-      throw new Error(`Unknown embedding provider: ${provider}`);
+/**
+ * Throw unless the batch size, concurrency and rate limit that are set are
+ * positive integers
+ */
+export function assertBatchOptions(options: BatchOptions): void {
+  for (const name of ['batchSize', 'concurrency', 'requestsPerMinute'] as const) {
+    const value = options[name];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(`${name} must be a positive integer, got ${value}`);
+    }
   }
 }
 
 /**
- * Generate embeddings using local model (Xenova/all-MiniLM-L6-v2)
- * Returns 384 dimensions, padded to target dimensions
+ * The embedder's prefix for the options' input type
  */
-async function generateLocalEmbedding(
-  text: string,
-  targetDimensions: number
-): Promise<number[]> {
-  if (!providerCache.local) {
-    console.log('Loading local embedding model (Xenova/all-MiniLM-L6-v2)...');
-    providerCache.local = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-    console.log('Local model loaded successfully');
+function getInputPrefix(embedder: Embedder, options: EmbeddingOptions): string {
+  const { inputType = 'document' } = options;
+  return (inputType === 'query' ? embedder.queryPrefix : embedder.documentPrefix) ?? '';
+}
+
+/**
+ * Share one limiter per model and rate across calls
+ */
+function getRateLimiter(modelId: string, requestsPerMinute: number): RateLimiter {
+  const key = `${modelId}:${requestsPerMinute}`;
+  let limiter = rateLimiters.get(key);
+
+  if (!limiter) {
+    limiter = createRateLimiter(requestsPerMinute);
+    rateLimiters.set(key, limiter);
   }
 
-  const output = await providerCache.local(text, {
-    pooling: 'mean',
+  return limiter;
+}
+
+/**
+ * Local @xenova/transformers model (Xenova/all-MiniLM-L6-v2 by default).
+ * Models outside `localModels` need `dimensions` set to their output size.
+ */
+function createLocalEmbedder(options: EmbeddingOptions): Embedder {
+  const { model = DEFAULT_LOCAL_MODEL, quantized = true, cacheDir } = options;
+  const known = localModels[model];
+
+  if (!known && !options.dimensions) {
+    throw new Error(
+      `Unknown local model ${model}. Set dimensions to its output size, ` +
+      `or use one of: ${Object.keys(localModels).join(', ')}`
+    );
+  }
+
+  const { dimensions, pooling, matryoshka, queryPrefix, documentPrefix } =
+    known ?? { dimensions: options.dimensions!, pooling: 'mean' as const };
+  const loader: LocalLoader = { model, quantized, cacheDir, pooling };
+
+  return {
+    modelId: `local:${model}${quantized ? '' : ':fp32'}:${dimensions}`,
+    dimensions,
+    normalization: 'l2',
+    matryoshka,
+    queryPrefix,
+    documentPrefix,
+    batchSize: 16,
+    concurrency: 1,
+    embed: text => generateLocalEmbedding(text, loader),
+    embedBatch: texts => generateLocalEmbeddings(texts, loader)
+  };
+}
+
+/**
+ * Google Gemini text-embedding-004 (768 dimensions, Matryoshka-trained)
+ */
+function createGeminiEmbedder(options: EmbeddingOptions): Embedder {
+  const { apiKey } = options;
+
+  return {
+    modelId: 'gemini:text-embedding-004:768',
+    dimensions: 768,
+    normalization: 'l2',
+    matryoshka: true,
+    batchSize: 100,
+    concurrency: 4,
+    requestsPerMinute: 1500,
+    embed: text => generateGeminiEmbedding(text, apiKey),
+    embedBatch: texts => generateGeminiEmbeddings(texts, apiKey)
+  };
+}
+
+/**
+ * OpenAI text-embedding-3 models, which shorten vectors server-side to the
+ * requested dimensions (1536 by default). PCA is fitted on native vectors.
+ */
+function createOpenAIEmbedder(options: EmbeddingOptions): Embedder {
+  const { apiKey, reduction } = options;
+  const dimensions = reduction === 'pca' ? 1536 : options.dimensions ?? 1536;
+
+  return {
+    modelId: `openai:${getOpenAIModel(dimensions)}:${dimensions}`,
+    dimensions,
+    normalization: 'l2',
+    matryoshka: true,
+    batchSize: 100,
+    concurrency: 4,
+    requestsPerMinute: 3000,
+    embed: text => generateOpenAIEmbedding(text, apiKey, dimensions),
+    embedBatch: texts => generateOpenAIEmbeddings(texts, apiKey, dimensions)
+  };
+}
+
+registerEmbeddingProvider('local', createLocalEmbedder);
+registerEmbeddingProvider('gemini', createGeminiEmbedder);
+registerEmbeddingProvider('openai', createOpenAIEmbedder);
+
+interface LocalLoader {
+  model: string;
+  quantized: boolean;
+  cacheDir?: string;
+  pooling: LocalModel['pooling'];
+}
+
+/**
+ * Load each local model and weight variant once
+ */
+function getLocalPipeline({ model, quantized, cacheDir }: LocalLoader): Promise<any> {
+  const key = `${model}:${quantized}:${cacheDir ?? ''}`;
+  let extractor = providerCache.local.get(key);
+
+  if (!extractor) {
+    console.log(`Loading local embedding model (${model}${quantized ? '' : ', full precision'})...`);
+    extractor = pipeline('feature-extraction', model, { quantized, cache_dir: cacheDir })
+      .then(loaded => {
+        console.log('Local model loaded successfully');
+        return loaded;
+      })
+      .catch(error => {
+        providerCache.local.delete(key);
+        throw error;
+      });
+    providerCache.local.set(key, extractor);
+  }
+
+  return extractor;
+}
+
+/**
+ * Generate an embedding with a local model
+ */
+async function generateLocalEmbedding(text: string, loader: LocalLoader): Promise<number[]> {
+  const extractor = await getLocalPipeline(loader);
+
+  const output = await extractor(text, {
+    pooling: loader.pooling,
+    normalize: true
+  });
+
+  return Array.from(output.data) as number[];
+}
+
+/**
+ * Generate local embeddings for a batch of texts in one model call
+ */
+async function generateLocalEmbeddings(texts: string[], loader: LocalLoader): Promise<number[][]> {
+  const extractor = await getLocalPipeline(loader);
+
+  const output = await extractor(texts, {
+    pooling: loader.pooling,
     normalize: true
   });
 
-  const embedding = Array.from(output.data) as number[];
-  return padEmbedding(embedding, targetDimensions);
+  const size = output.dims[output.dims.length - 1];
+  return texts.map((_, i) =>
+    Array.from(output.data.slice(i * size, (i + 1) * size)) as number[]
+  );
 }
 
 /**
@@ -86,6 +458,48 @@ async function generateGeminiEmbedding(
     throw new Error('GEMINI_API_KEY is required for Gemini embeddings');
   }
 
+  const model = await getGeminiModel(key);
+  const result = await model.embedContent(text);
+  return result.embedding.values;
+}
+
+/**
+ * Generate Gemini embeddings for a batch of texts with batchEmbedContents
+ */
+async function generateGeminiEmbeddings(
+  texts: string[],
+  apiKey?: string
+): Promise<number[][]> {
+  const key = apiKey || process.env.GEMINI_API_KEY;
+  if (!key) {
+    throw new Error('GEMINI_API_KEY is required for Gemini embeddings');
+  }
+
+  const model = await getGeminiModel(key);
+
+  try {
+    const result = await model.batchEmbedContents({
+      requests: texts.map(text => ({
+        content: { role: 'user', parts: [{ text }] }
+      }))
+    });
+    return result.embeddings.map((embedding: { values: number[] }) => embedding.values);
+  } catch (error: any) {
+    if (typeof error?.status === 'number') {
+      throw new EmbeddingApiError(
+        `Gemini API error: ${error.message}`,
+        error.status,
+        parseGeminiRetryDelay(error.errorDetails)
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the Gemini model client once
+ */
+async function getGeminiModel(key: string): Promise<any> {
   if (!providerCache.gemini) {
     // Dynamic import to keep it optional
     const { GoogleGenerativeAI } = await import('@google/generative-ai');
@@ -93,8 +507,20 @@ async function generateGeminiEmbedding(
     providerCache.gemini = genAI.getGenerativeModel({ model: 'text-embedding-004' });
   }
 
-  const result = await providerCache.gemini.embedContent(text);
-  return result.embedding.values;
+  return providerCache.gemini;
+}
+
+/**
+ * Read the delay from a google.rpc.RetryInfo detail (e.g. "12s") in milliseconds
+ */
+function parseGeminiRetryDelay(details: unknown): number | null {
+  if (!Array.isArray(details)) {
+    return null;
+  }
+
+  const retryInfo = details.find(detail => typeof detail?.retryDelay === 'string');
+  const seconds = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+  return isNaN(seconds) ? null : seconds * 1000;
 }
 
 /**
@@ -111,7 +537,35 @@ async function generateOpenAIEmbedding(
     throw new Error('OPENAI_API_KEY is required for OpenAI embeddings');
   }
 
-  const model = dimensions <= 1536 ? 'text-embedding-3-small' : 'text-embedding-3-large';
+  const [embedding] = await requestOpenAIEmbeddings(text, key, dimensions);
+  return embedding;
+}
+
+/**
+ * Generate OpenAI embeddings for a batch of texts in one request
+ */
+async function generateOpenAIEmbeddings(
+  texts: string[],
+  apiKey?: string,
+  dimensions: number = 1536
+): Promise<number[][]> {
+  const key = apiKey || process.env.OPENAI_API_KEY;
+  if (!key) {
+    throw new Error('OPENAI_API_KEY is required for OpenAI embeddings');
+  }
+
+  return requestOpenAIEmbeddings(texts, key, dimensions);
+}
+
+/**
+ * Call the OpenAI embeddings endpoint, returning embeddings in input order
+ */
+async function requestOpenAIEmbeddings(
+  input: string | string[],
+  key: string,
+  dimensions: number
+): Promise<number[][]> {
+  const model = getOpenAIModel(dimensions);
 
   const response = await fetch('https://api.openai.com/v1/embeddings', {
     method: 'POST',
@@ -120,7 +574,7 @@ async function generateOpenAIEmbedding(
       'Authorization': `Bearer ${key}`
     },
     body: JSON.stringify({
-      input: text,
+      input,
       model,
       dimensions
     })
@@ -128,11 +582,32 @@ async function generateOpenAIEmbedding(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`OpenAI API error: ${error}`);
+    throw new EmbeddingApiError(
+      `OpenAI API error: ${error}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
   }
 
-  const data = await response.json() as { data: Array<{ embedding: number[] }> };
-  return data.data[0].embedding;
+  const data = await response.json() as { data: Array<{ embedding: number[]; index: number }> };
+  return data.data
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+}
+
+/**
+ * Pick the OpenAI embedding model that supports the requested dimensions
+ */
+function getOpenAIModel(dimensions: number): string {
+  return dimensions <= 1536 ? 'text-embedding-3-small' : 'text-embedding-3-large';
+}
+
+/**
+ * Get a stable identifier for the provider, model and dimensions
+ * that the given options will embed with
+ */
+export function getEmbeddingModelId(options: EmbeddingOptions = {}): string {
+  return resolveEmbedder(options).modelId;
 }
 
 /**
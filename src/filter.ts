@@ -0,0 +1,133 @@
+/**
+ * Structured metadata filters compiled to parameterized SQL
+ */
+
+import type { InValue } from '@libsql/client';
+import { requireColumn, resolveSchema, type ResolvedSchema, type SchemaField } from './schema.js';
+
+export interface DateRange {
+  from?: string | Date;
+  to?: string | Date;
+}
+
+export type MetadataValue = string | number | boolean | null;
+
+export interface SearchFilter {
+  folder?: string;
+  folderPrefix?: string;
+  tags?: {
+    any?: string[];
+    all?: string[];
+  };
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  publishedAt?: DateRange;
+  metadata?: Record<string, MetadataValue>;
+}
+
+export interface CompiledFilter {
+  conditions: string[];
+  args: InValue[];
+}
+
+/**
+ * Compile a filter into WHERE conditions against the article table `alias`,
+ * whose columns are named by `schema`. All values are bound as arguments;
+ * only column names are interpolated.
+ */
+export function compileFilter(
+  filter: SearchFilter = {},
+  alias: string = 'a',
+  schema: ResolvedSchema = resolveSchema()
+): CompiledFilter {
+  const conditions: string[] = [];
+  const args: InValue[] = [];
+  const column = (field: SchemaField, purpose: string) =>
+    `${alias}.${requireColumn(schema, field, `Filtering by ${purpose}`)}`;
+
+  if (filter.folder !== undefined) {
+    conditions.push(`${column('folder', 'folder')} = ?`);
+    args.push(filter.folder);
+  }
+
+  if (filter.folderPrefix !== undefined) {
+    const prefix = filter.folderPrefix.replace(/\/+$/, '');
+    const folder = column('folder', 'folderPrefix');
+    conditions.push(`(${folder} = ? OR ${folder} LIKE ? ESCAPE '\\')`);
+    args.push(prefix, `${escapeLike(prefix)}/%`);
+  }
+
+  const anyTags = filter.tags?.any ?? [];
+  if (anyTags.length > 0) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(${column('tags', 'tags')}) WHERE value IN (${placeholders(anyTags)}))`
+    );
+    args.push(...anyTags);
+  }
+
+  const allTags = [...new Set(filter.tags?.all ?? [])];
+  if (allTags.length > 0) {
+    const tags = column('tags', 'tags');
+    conditions.push(
+      `(SELECT COUNT(DISTINCT value) FROM json_each(${tags}) WHERE value IN (${placeholders(allTags)})) = ?`
+    );
+    args.push(...allTags, allTags.length);
+  }
+
+  if (filter.createdAt) {
+    compileDateRange(column('created_at', 'createdAt'), filter.createdAt, conditions, args);
+  }
+  if (filter.updatedAt) {
+    compileDateRange(column('updated_at', 'updatedAt'), filter.updatedAt, conditions, args);
+  }
+  if (filter.publishedAt) {
+    compileDateRange(column('published_at', 'publishedAt'), filter.publishedAt, conditions, args);
+  }
+
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    const path = `$."${key.replace(/"/g, '\\"')}"`;
+    const metadata = column('metadata', 'metadata');
+
+    if (value === null) {
+      conditions.push(`json_extract(${metadata}, ?) IS NULL`);
+      args.push(path);
+    } else {
+      conditions.push(`json_extract(${metadata}, ?) = ?`);
+      args.push(path, typeof value === 'boolean' ? Number(value) : value);
+    }
+  }
+
+  return { conditions, args };
+}
+
+/**
+ * Add inclusive bounds on a datetime column
+ */
+function compileDateRange(
+  column: string,
+  range: DateRange | undefined,
+  conditions: string[],
+  args: InValue[]
+): void {
+  if (range?.from !== undefined) {
+    conditions.push(`${column} >= datetime(?)`);
+    args.push(toDateArg(range.from));
+  }
+
+  if (range?.to !== undefined) {
+    conditions.push(`${column} <= datetime(?)`);
+    args.push(toDateArg(range.to));
+  }
+}
+
+function toDateArg(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
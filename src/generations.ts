@@ -0,0 +1,223 @@
+/**
+ * Index generations: full rebuilds are written to staging tables and swapped
+ * in atomically, keeping the previous generation for rollback
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { forgetProjection } from './manifest.js';
+
+/** Tables that make up one generation of an index, by suffix */
+const COMPANIONS = ['', '_chunks', '_fts', '_manifest'];
+
+interface SchemaEntry {
+  type: 'table' | 'index';
+  name: string;
+  sql: string;
+}
+
+/**
+ * Name of the staging generation of `tableName`
+ */
+export function stagingTableName(tableName: string): string {
+  return `${tableName}_next`;
+}
+
+/**
+ * Name of the previous generation of `tableName`
+ */
+export function previousTableName(tableName: string): string {
+  return `${tableName}_previous`;
+}
+
+/**
+ * Create empty staging tables with the same schema and indexes as the live
+ * ones, replacing any left behind by an interrupted run
+ *
+ * Throws when the application's tables, views or triggers refer to the live
+ * tables, since swapping generations would repoint them.
+ */
+export async function createStagingTables(client: Client, tableName: string): Promise<string> {
+  const staging = stagingTableName(tableName);
+  const dependents = await findDependents(client, tableName);
+
+  if (dependents.length > 0) {
+    throw new Error(
+      `Cannot build a staged re-index of ${tableName}: ${dependents.join(', ')} refer to it, and swapping ` +
+      `generations would repoint them at ${previousTableName(tableName)}. Index it with incremental: true, ` +
+      'which updates rows in place, or rebuild it in place with atomic: false.'
+    );
+  }
+
+  const schema = await readSchema(client, tableName);
+
+  await client.batch([
+    ...dropTables(staging),
+    ...schema.map(entry => retarget(entry.sql, tableName, staging))
+  ], 'write');
+
+  return staging;
+}
+
+/**
+ * Drop the staging generation of `tableName`, e.g. after a failed rebuild
+ */
+export async function dropStagingTables(client: Client, tableName: string): Promise<void> {
+  await client.batch(dropTables(stagingTableName(tableName)), 'write');
+}
+
+/**
+ * Swap the staging generation in, in one transaction. The live generation
+ * becomes the previous one, replacing the generation before it.
+ */
+export async function swapStagingTables(client: Client, tableName: string): Promise<void> {
+  const staging = stagingTableName(tableName);
+  const previous = previousTableName(tableName);
+  const live = await readSchema(client, tableName);
+  const next = await readSchema(client, staging);
+
+  await client.batch([
+    ...dropTables(previous),
+    ...moveGeneration(live, tableName, previous),
+    ...moveGeneration(next, staging, tableName)
+  ], 'write');
+  forgetProjection(client, tableName);
+}
+
+/**
+ * Restore the generation that the last full re-index replaced
+ *
+ * The current generation becomes the previous one, so calling this again
+ * rolls forward. Throws when there is no previous generation, or when the
+ * application's tables, views or triggers refer to the live tables.
+ */
+export async function rollbackIndex(client: Client, tableName: string = 'articles'): Promise<void> {
+  const previous = previousTableName(tableName);
+  const parked = `${tableName}_rollback`;
+  const live = await readSchema(client, tableName);
+  const restored = await readSchema(client, previous);
+
+  if (!restored.some(entry => entry.name === previous)) {
+    throw new Error(`No previous generation of ${tableName} to roll back to`);
+  }
+
+  const dependents = await findDependents(client, tableName);
+  if (dependents.length > 0) {
+    throw new Error(
+      `Cannot roll back ${tableName}: ${dependents.join(', ')} refer to it, and swapping generations ` +
+      `would repoint them at ${previous}.`
+    );
+  }
+
+  // Index names are global, so the live generation is parked without indexes
+  // while the previous one takes its names
+  const indexes = live.filter(entry => entry.type === 'index');
+  const tables = live.filter(entry => entry.type === 'table');
+
+  await client.batch([
+    ...indexes.map(entry => `DROP INDEX ${entry.name}`),
+    ...renameTables(tables, tableName, parked),
+    ...moveGeneration(restored, previous, tableName),
+    ...tables.map(entry =>
+      `ALTER TABLE ${retarget(entry.name, tableName, parked)} RENAME TO ${retarget(entry.name, tableName, previous)}`),
+    ...indexes.map(entry => retarget(entry.sql, tableName, previous))
+  ], 'write');
+  forgetProjection(client, tableName);
+}
+
+/**
+ * Tables and indexes of one generation, tables first
+ */
+async function readSchema(client: Client, tableName: string): Promise<SchemaEntry[]> {
+  const names = COMPANIONS.map(suffix => `${tableName}${suffix}`);
+  const result = await client.execute({
+    sql: `SELECT type, name, sql FROM sqlite_master
+          WHERE type IN ('table', 'index') AND tbl_name IN (${names.map(() => '?').join(', ')})
+            AND sql IS NOT NULL
+          ORDER BY type = 'index', rowid`,
+    args: names
+  });
+
+  return result.rows.map(row => ({
+    type: row.type as 'table' | 'index',
+    name: row.name as string,
+    sql: row.sql as string
+  }));
+}
+
+/**
+ * Tables with foreign keys to the live generation, and views and triggers
+ * that mention it, other than the index's own tables. SQLite rewrites these
+ * references when a table is renamed, so they would follow the live tables
+ * to `${tableName}_previous`.
+ */
+async function findDependents(client: Client, tableName: string): Promise<string[]> {
+  const live = COMPANIONS.map(suffix => `${tableName}${suffix}`.toLowerCase());
+  const own = new Set(
+    [tableName, stagingTableName(tableName), previousTableName(tableName), `${tableName}_rollback`]
+      .flatMap(name => COMPANIONS.map(suffix => `${name}${suffix}`.toLowerCase()))
+  );
+  const dependents: string[] = [];
+
+  const references = await client.execute({
+    sql: `SELECT DISTINCT m.name FROM sqlite_master m, pragma_foreign_key_list(m.name) f
+          WHERE m.type = 'table' AND lower(f."table") IN (${live.map(() => '?').join(', ')})`,
+    args: live
+  });
+  for (const row of references.rows) {
+    if (!own.has(String(row.name).toLowerCase())) {
+      dependents.push(`${row.name} (foreign key)`);
+    }
+  }
+
+  const objects = await client.execute(`SELECT type, name, sql FROM sqlite_master WHERE type IN ('view', 'trigger')`);
+  for (const row of objects.rows) {
+    if (live.some(name => mentions(String(row.sql), name))) {
+      dependents.push(`${row.name} (${row.type})`);
+    }
+  }
+
+  return dependents;
+}
+
+/**
+ * Check whether SQL mentions a table name as a whole identifier, ignoring case
+ */
+function mentions(sql: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, 'i').test(sql);
+}
+
+/**
+ * Rename a generation's tables and re-create its indexes under names that
+ * match, since vector search looks indexes up by table name
+ */
+function moveGeneration(schema: SchemaEntry[], from: string, to: string): InStatement[] {
+  const indexes = schema.filter(entry => entry.type === 'index');
+  const tables = schema.filter(entry => entry.type === 'table');
+
+  return [
+    ...indexes.map(entry => `DROP INDEX ${entry.name}`),
+    ...renameTables(tables, from, to),
+    ...indexes.map(entry => retarget(entry.sql, from, to))
+  ];
+}
+
+function renameTables(tables: SchemaEntry[], from: string, to: string): InStatement[] {
+  return tables.map(entry => `ALTER TABLE ${entry.name} RENAME TO ${retarget(entry.name, from, to)}`);
+}
+
+/**
+ * Drop every table of a generation, chunks before the articles they reference
+ */
+function dropTables(tableName: string): InStatement[] {
+  return ['_chunks', '_fts', '_manifest', ''].map(suffix => `DROP TABLE IF EXISTS ${tableName}${suffix}`);
+}
+
+/**
+ * Replace the generation name `from` with `to` in a table name or in the SQL
+ * of a table or index, e.g. `articles_chunks_article_idx ON "articles_chunks"`
+ */
+function retarget(sql: string, from: string, to: string): string {
+  const name = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return sql.replace(new RegExp(`(?<![\\w$])${name}(?=_|[\\s"'\`(]|$)`, 'g'), to);
+}
@@ -7,27 +7,166 @@
 // Export embedding utilities
 export {
   generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingModelId,
+  registerEmbeddingProvider,
+  resolveEmbedder,
   padEmbedding,
   prepareTextForEmbedding,
   type EmbeddingProvider,
-  type EmbeddingOptions
+  type EmbeddingOptions,
+  type BatchOptions,
+  type Embedder,
+  type EmbedderFactory,
+  type DimensionReduction,
+  type EmbeddingInputType
 } from './embeddings.js';
 
+// Export dimension reduction utilities
+export {
+  fitPca,
+  projectPca,
+  type PcaProjection
+} from './pca.js';
+
+// Export retry utilities
+export {
+  EmbeddingApiError,
+  type RetryOptions
+} from './retry.js';
+
 // Export indexing utilities
 export {
   indexContent,
+  indexDocuments,
   createTable,
   type IndexerOptions,
-  type IndexedDocument
+  type IndexedDocument,
+  type IndexedChunk,
+  type IndexResult,
+  type CreateTableOptions,
+  type VectorIndexOptions
 } from './indexer.js';
 
+// Export content sources
+export {
+  createFileSource,
+  createMemorySource,
+  type ContentSource,
+  type SourceDocument,
+  type DocumentInput,
+  type FileSourceOptions
+} from './sources.js';
+
+// Export watch mode
+export {
+  watchContent,
+  type WatchOptions,
+  type WatchUpdate,
+  type ContentWatcher
+} from './watcher.js';
+
+// Export table schemas
+export {
+  checkSchema,
+  validateSchema,
+  SchemaError,
+  type TableSchema,
+  type SchemaField,
+  type ExtraColumn
+} from './schema.js';
+
+// Export schema migrations
+export {
+  migrate,
+  getSchemaVersion,
+  SCHEMA_VERSION,
+  type MigrateOptions,
+  type MigrationResult
+} from './migrations.js';
+
+// Export index generations
+export {
+  rollbackIndex
+} from './generations.js';
+
+// Export text normalization
+export {
+  normalizeMarkdown,
+  type NormalizeOptions
+} from './normalize.js';
+
+// Export content loaders
+export {
+  registerContentLoader,
+  getContentLoader,
+  type ContentLoader,
+  type LoadedContent
+} from './loaders.js';
+
+// Export vector storage utilities
+export {
+  getVectorStorage,
+  type VectorType,
+  type VectorStorage
+} from './vectors.js';
+
+// Export manifest utilities
+export {
+  getIndexManifest,
+  EmbeddingMismatchError,
+  type IndexManifest
+} from './manifest.js';
+
+// Export chunking utilities
+export {
+  chunkMarkdown,
+  slugifyHeading,
+  type Chunk,
+  type ChunkingOptions
+} from './chunker.js';
+
 // Export search utilities
 export {
   search,
+  searchPage,
+  findSimilar,
   getAllArticles,
   getArticleBySlug,
   getArticlesByFolder,
   getFolders,
   type SearchOptions,
-  type SearchResult
+  type SearchResult,
+  type SearchPage,
+  type SearchChunk,
+  type SearchMode,
+  type HybridOptions,
+  type RescoreOptions,
+  type SimilarOptions
 } from './search.js';
+
+// Export embedding caches
+export {
+  createMemoryCache,
+  createLibsqlCache,
+  createFileCache,
+  queryCacheKey,
+  documentCacheKey,
+  type EmbeddingCache,
+  type MemoryCacheOptions,
+  type LibsqlCacheOptions,
+  type FileCacheOptions
+} from './cache.js';
+
+// Export snippet utilities
+export {
+  createSnippet,
+  type SnippetOptions
+} from './snippet.js';
+
+// Export filter types
+export {
+  type SearchFilter,
+  type DateRange,
+  type MetadataValue
+} from './filter.js';
@@ -2,19 +2,87 @@
  * Content indexer for markdown and other formats
  */
 
-import { readdir, readFile } from 'fs/promises';
-import { join, relative, dirname, extname } from 'path';
-import matter from 'gray-matter';
-import type { Client } from '@libsql/client';
-import { generateEmbedding, prepareTextForEmbedding, type EmbeddingOptions } from './embeddings.js';
+import { relative, resolve, dirname, extname } from 'path';
+import { createHash } from 'crypto';
+import type { Client, InValue } from '@libsql/client';
+import {
+  assertBatchOptions,
+  generateEmbeddings,
+  getEmbeddingModelId,
+  prepareTextForEmbedding,
+  resolveEmbedder,
+  type BatchOptions,
+  type EmbeddingOptions
+} from './embeddings.js';
+import { chunkMarkdown, type Chunk, type ChunkingOptions } from './chunker.js';
+import { assertManifestMatches, createManifestTable, getIndexManifest, writeManifest } from './manifest.js';
+import { fitPca, projectPca, type PcaProjection } from './pca.js';
+import { documentCacheKey, type EmbeddingCache } from './cache.js';
+import { getContentLoader } from './loaders.js';
+import { normalizeMarkdown, type NormalizeOptions } from './normalize.js';
+import { createStagingTables, dropStagingTables, swapStagingTables } from './generations.js';
+import { recordSchemaVersion } from './migrations.js';
+import {
+  fieldSql,
+  resolveSchema,
+  validateSchema,
+  type ResolvedSchema,
+  type SchemaField,
+  type TableSchema
+} from './schema.js';
+import {
+  createFileSource,
+  createMemorySource,
+  DEFAULT_EXCLUDE,
+  DEFAULT_FILE_EXTENSIONS,
+  type ContentSource,
+  type DocumentInput,
+  type SourceDocument
+} from './sources.js';
+import {
+  assertVectorType,
+  getVectorStorage,
+  vectorColumnType,
+  vectorFunction,
+  type VectorStorage,
+  type VectorType
+} from './vectors.js';
 
 export interface IndexerOptions {
   client: Client;
-  contentPath: string;
+  /** Directory of content files; required unless a `source` is given */
+  contentPath?: string;
+  /** Read documents from here instead of the files under `contentPath` */
+  source?: ContentSource;
   embeddingOptions?: EmbeddingOptions;
+  /** Extensions of the files read from `contentPath` */
   fileExtensions?: string[];
+  /** Directory names skipped under `contentPath` */
   exclude?: string[];
   tableName?: string;
+  /** Column mapping of the table, e.g. for an existing table (see TableSchema) */
+  schema?: TableSchema;
+  incremental?: boolean;
+  /**
+   * Only index these files or directories, relative to `contentPath`. Changed
+   * files are upserted and rows for paths that no longer exist are removed;
+   * the rest of the table is left alone. Implies `incremental`.
+   */
+  paths?: string[];
+  /**
+   * Build full re-indexes in staging tables and swap them in atomically,
+   * keeping the replaced generation for `rollbackIndex` (default true). Throws
+   * for tables that the application's tables, views or triggers refer to.
+   */
+  atomic?: boolean;
+  chunking?: boolean | ChunkingOptions;
+  /** Reduce markdown to plain text before embedding (default true) */
+  normalize?: boolean | NormalizeOptions;
+  batch?: BatchOptions;
+  /** Reuse document and chunk embeddings, e.g. across CI builds */
+  embeddingCache?: EmbeddingCache;
+  /** Expected vector type of the table; indexing fails if it differs */
+  vectorType?: VectorType;
   onProgress?: (current: number, total: number, file: string) => void;
 }
 
@@ -26,197 +94,1008 @@ export interface IndexedDocument {
   tags: string[];
   embedding: number[];
   metadata?: Record<string, any>;
+  description?: string | null;
+  publishedAt?: string | null;
+  updatedAt?: string | null;
+  contentHash?: string;
+  chunks?: IndexedChunk[];
 }
 
-/**
- * Index markdown content from a directory
- */
-export async function indexContent(options: IndexerOptions): Promise<{
+export interface IndexedChunk extends Chunk {
+  embedding: number[];
+}
+
+export interface CreateTableOptions {
+  chunks?: boolean;
+  fts?: boolean;
+  vectorIndex?: VectorIndexOptions;
+  embeddingOptions?: EmbeddingOptions;
+  /** Element type of the embedding columns (default 'F32') */
+  vectorType?: VectorType;
+  /** Also store float32 vectors in `embedding_full` so search can rescore */
+  rescore?: boolean;
+  /** Column names to create, or to add the missing ones to an existing table */
+  schema?: TableSchema;
+}
+
+export interface VectorIndexOptions {
+  metric?: 'cosine' | 'l2';
+  compressNeighbors?: 'float1bit' | 'float8' | 'float16' | 'floatb16' | 'float32';
+  maxNeighbors?: number;
+}
+
+export interface IndexResult {
   success: number;
   failed: number;
   total: number;
-}> {
+  added: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+/**
+ * Minimum number of files parsed before their embeddings are requested
+ * together; windows grow to fill `batchSize * concurrency` texts
+ */
+const EMBEDDING_WINDOW = 64;
+
+/**
+ * Index content files from a directory, or the documents of a `source`
+ *
+ * Each document is read by the content loader for its extension (see
+ * `registerContentLoader`). The embedded text is normalized to plain text
+ * unless `normalize` is false; the stored content is left as loaded.
+ *
+ * With `incremental: true` the table is not cleared: files whose content hash
+ * matches the stored one are skipped, changed files are upserted and rows for
+ * files that no longer exist are removed. `paths` narrows such a run to the
+ * listed files and directories. Such runs throw an EmbeddingMismatchError when
+ * the populated table was indexed with another model; switch models with a
+ * full re-index.
+ *
+ * Full re-indexes of a populated table are built in staging tables
+ * (`${tableName}_next`) while searches keep reading the live ones, then
+ * swapped in with one transaction. The replaced generation is kept as
+ * `${tableName}_previous` for `rollbackIndex`. A run that fails before the
+ * swap leaves the live tables untouched, and so does one in which any
+ * document fails: it drops the staging tables and throws. Set `atomic: false`
+ * to rebuild in place instead.
+ *
+ * With `reduction: 'pca'` a projection is fitted on the native embeddings of
+ * every document and chunk before anything is stored, and saved in the
+ * manifest. Incremental runs reuse the saved projection.
+ *
+ * With an `embeddingCache`, texts embedded by an earlier run with the same
+ * model are read from the cache instead of the provider.
+ *
+ * An existing table is checked against `schema` before anything is read, and
+ * a SchemaError lists every missing or mistyped column.
+ */
+export async function indexContent(options: IndexerOptions): Promise<IndexResult> {
   const {
     client,
     contentPath,
+    source,
     embeddingOptions = {},
-    fileExtensions = ['.md', '.markdown'],
-    exclude = ['node_modules', '.git', 'dist', 'build'],
+    fileExtensions = DEFAULT_FILE_EXTENSIONS,
+    exclude = DEFAULT_EXCLUDE,
     tableName = 'articles',
+    schema,
+    incremental: incrementalOption = false,
+    paths,
+    atomic = true,
+    chunking = false,
+    normalize = true,
+    batch = {},
+    embeddingCache,
+    vectorType,
     onProgress
   } = options;
 
-  // Find all content files
-  const files = await findFiles(contentPath, contentPath, fileExtensions, exclude);
+  const incremental = incrementalOption || paths !== undefined;
+  const chunkingOptions = chunking === true ? {} : chunking || null;
+  const normalizeOptions = normalize === true ? {} : normalize || null;
+  const columns = resolveSchema(schema);
 
-  if (files.length === 0) {
-    console.warn(`No files found in ${contentPath}`);
-    return { success: 0, failed: 0, total: 0 };
+  assertBatchOptions(batch);
+
+  for (const extension of fileExtensions) {
+    if (!getContentLoader(extension)) {
+      throw new Error(
+        `No content loader for ${extension} files. Register one with registerContentLoader.`
+      );
+    }
+  }
+  const result: IndexResult = {
+    success: 0,
+    failed: 0,
+    total: 0,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    deleted: 0
+  };
+
+  // Read every document, or only the files under the given paths
+  let scope: string[] | null = null;
+  let documentSource: ContentSource;
+
+  if (source) {
+    if (paths) {
+      throw new Error('paths only applies to files under contentPath, not to a custom source');
+    }
+    documentSource = source;
+  } else if (contentPath !== undefined) {
+    scope = paths?.map(path => scopePath(contentPath, path)) ?? null;
+    documentSource = createFileSource({ contentPath, fileExtensions, exclude, paths: scope ?? undefined });
+  } else {
+    throw new Error('indexContent needs a contentPath or a source');
+  }
+
+  if (await tableExists(client, tableName)) {
+    await validateSchema(client, tableName, schema);
+  }
+
+  const files: SourceDocument[] = [];
+  for await (const document of documentSource.documents()) {
+    files.push(document);
+  }
+
+  // Incremental runs go on to remove the rows of every stored document
+  if (files.length === 0 && !scope) {
+    console.warn(source ? 'The content source has no documents' : `No files found in ${contentPath}`);
+    if (!incremental) {
+      return result;
+    }
   }
 
-  // Clear existing content
-  await client.execute(`DELETE FROM ${tableName}`);
+  result.total = files.length;
+
+  const embedder = resolveEmbedder(embeddingOptions);
+  const storage = await getVectorStorage(client, tableName, columns)
+    ?? { type: vectorType ?? 'F32', dimensions: embedder.dimensions, rescore: false };
+
+  if (storage.dimensions !== embedder.dimensions) {
+    throw new Error(
+      `Table ${tableName} stores ${storage.dimensions}-dimension vectors but ${embedder.modelId} ` +
+      `produces ${embedder.dimensions}. Set embeddingOptions.dimensions to ${storage.dimensions} ` +
+      `or recreate the table with createTable(client, '${tableName}', ${embedder.dimensions}).`
+    );
+  }
+  if (vectorType && storage.type !== vectorType) {
+    throw new Error(
+      `Table ${tableName} stores ${storage.type} vectors, not ${vectorType}. ` +
+      `Recreate it with createTable(client, '${tableName}', ${storage.dimensions}, { vectorType: '${vectorType}' }).`
+    );
+  }
+
+  // Companion tables are kept in sync whenever createTable made them
+  const hasChunks = await tableExists(client, `${tableName}_chunks`);
+  const hasFts = await tableExists(client, `${tableName}_fts`);
+
+  if (chunkingOptions && !hasChunks) {
+    throw new Error(
+      `Chunking requires the ${tableName}_chunks table. Call createTable with { chunks: true } first.`
+    );
+  }
+
+  // Incremental runs keep the other stored vectors, so they must embed with the same model
+  if (incremental && await hasRows(client, tableName)) {
+    const manifest = await getIndexManifest(client, tableName, { projection: false });
+    if (manifest) {
+      assertManifestMatches(manifest, tableName, embeddingOptions, embedder, 'update');
+    }
+  }
+
+  // Full rebuilds of a populated table write to staging tables that are swapped in at the end
+  const staged = atomic && !incremental && await hasRows(client, tableName);
+  const targetTable = staged ? await createStagingTables(client, tableName) : tableName;
+  const chunksTable = `${targetTable}_chunks`;
+  const ftsTable = `${targetTable}_fts`;
+
+  // Load stored hashes, or clear existing content for a full rebuild
+  const existing = new Map<string, string | null>();
+
+  if (incremental) {
+    const rows = await client.execute(
+      `SELECT ${columns.columns.slug} AS slug, ${fieldSql(columns, 'content_hash')} AS content_hash FROM ${tableName}`
+    );
+    for (const row of rows.rows) {
+      existing.set(row.slug as string, row.content_hash as string | null);
+    }
+  } else if (!staged) {
+    if (hasChunks) {
+      await client.execute(`DELETE FROM ${chunksTable}`);
+    }
+    if (hasFts) {
+      await client.execute(`DELETE FROM ${ftsTable}`);
+    }
+    await client.execute(`DELETE FROM ${tableName}`);
+  }
+
+  // PCA needs a projection; without a stored one, fit it once everything is embedded
+  const nativeOptions = { ...embeddingOptions, reduction: undefined, dimensions: undefined };
+  const usesPca = embeddingOptions.reduction === 'pca' &&
+    resolveEmbedder(nativeOptions).dimensions !== embedder.dimensions;
+  let projection: PcaProjection | null = null;
+
+  if (usesPca) {
+    const manifest = incremental ? await getIndexManifest(client, tableName) : null;
+    projection = embeddingOptions.projection
+      ?? (manifest?.modelId === embedder.modelId ? manifest.projection : null);
+  }
+
+  const deferred: Array<{ document: IndexedDocument; relativePath: string }> = [];
+  const windowOptions: EmbeddingOptions & BatchOptions = usesPca && !projection
+    ? { ...nativeOptions, ...batch }
+    : { ...embeddingOptions, ...batch, ...(projection && { projection }) };
+
+  const store = async (document: IndexedDocument, relativePath: string) => {
+    try {
+      const articleId = await upsertDocument(client, document, targetTable, storage, columns);
+
+      if (document.chunks) {
+        await replaceChunks(client, chunksTable, articleId, document.chunks, storage);
+      } else if (incremental && hasChunks) {
+        await deleteChunks(client, chunksTable, articleId);
+      }
+
+      if (hasFts) {
+        await replaceKeywords(client, ftsTable, articleId, document);
+      }
+
+      if (existing.has(document.slug)) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+      result.success++;
+    } catch (error) {
+      console.error(`Failed to index ${relativePath}:`, error);
+      result.failed++;
+    }
+  };
+
+  // Process files in windows large enough to keep every concurrent request busy
+  const seen = new Set<string>();
+  const windowSize = Math.max(
+    EMBEDDING_WINDOW,
+    (batch.batchSize ?? embedder.batchSize ?? 16) * (batch.concurrency ?? embedder.concurrency ?? 1)
+  );
+
+  for (let start = 0; start < files.length; start += windowSize) {
+    const pending: Array<{ parsed: ParsedFile; contentHash: string; relativePath: string }> = [];
 
-  // Process each file
-  let success = 0;
-  let failed = 0;
+    for (let i = start; i < Math.min(start + windowSize, files.length); i++) {
+      const file = files[i];
 
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
+      if (onProgress) {
+        onProgress(i + 1, files.length, file.id);
+      }
+
+      try {
+        const parsed = await parseDocument(file, normalizeOptions);
+        const contentHash = hashContent(parsed, embeddingOptions, chunkingOptions, normalizeOptions);
+        seen.add(parsed.slug);
+
+        if (existing.get(parsed.slug) === contentHash) {
+          result.unchanged++;
+          result.success++;
+          continue;
+        }
 
-    if (onProgress) {
-      onProgress(i + 1, files.length, file.relativePath);
+        pending.push({ parsed, contentHash, relativePath: file.id });
+      } catch (error) {
+        console.error(`Failed to index ${file.id}:`, error);
+        seen.add(slugFromPath(file.path));
+        result.failed++;
+      }
     }
 
+    if (pending.length === 0) {
+      continue;
+    }
+
+    let documents: IndexedDocument[];
     try {
-      const document = await processFile(file, embeddingOptions);
-      await insertDocument(client, document, tableName);
-      success++;
+      documents = await embedDocuments(
+        pending,
+        windowOptions,
+        chunkingOptions,
+        normalizeOptions,
+        embeddingCache
+      );
     } catch (error) {
-      console.error(`Failed to index ${file.relativePath}:`, error);
-      failed++;
+      for (const { relativePath } of pending) {
+        console.error(`Failed to index ${relativePath}:`, error);
+      }
+      result.failed += pending.length;
+      continue;
+    }
+
+    for (let j = 0; j < documents.length; j++) {
+      if (usesPca && !projection) {
+        deferred.push({ document: documents[j], relativePath: pending[j].relativePath });
+      } else {
+        await store(documents[j], pending[j].relativePath);
+      }
     }
   }
 
-  return { success, failed, total: files.length };
-}
+  if (deferred.length > 0) {
+    const fitted = fitPca(
+      deferred.flatMap(({ document }) => [
+        document.embedding,
+        ...(document.chunks ?? []).map(chunk => chunk.embedding)
+      ]),
+      embedder.dimensions
+    );
+    projection = fitted;
 
-/**
- * Find all files matching extensions
- */
-async function findFiles(
-  dir: string,
-  baseDir: string,
-  extensions: string[],
-  exclude: string[]
-): Promise<Array<{ fullPath: string; relativePath: string; folder: string }>> {
-  const files: Array<{ fullPath: string; relativePath: string; folder: string }> = [];
-  const entries = await readdir(dir, { withFileTypes: true });
+    for (const { document, relativePath } of deferred) {
+      await store({
+        ...document,
+        embedding: projectPca(fitted, document.embedding),
+        chunks: document.chunks?.map(chunk => ({
+          ...chunk,
+          embedding: projectPca(fitted, chunk.embedding)
+        }))
+      }, relativePath);
+    }
+  }
 
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
+  // Swapping in a generation that lost documents would drop their live rows
+  if (staged && result.failed > 0) {
+    await dropStagingTables(client, tableName);
+    throw new Error(
+      `${result.failed} of ${result.total} documents failed to index, so the re-index of ${tableName} ` +
+      'was abandoned and the live tables are unchanged. Fix them, or pass atomic: false to index the rest in place.'
+    );
+  }
 
-    if (entry.isDirectory()) {
-      if (!entry.name.startsWith('.') && !exclude.includes(entry.name)) {
-        const subFiles = await findFiles(fullPath, baseDir, extensions, exclude);
-        files.push(...subFiles);
+  // Record the model unless nothing in the table was embedded or verified with it
+  if (result.success > 0 || !incremental) {
+    await createManifestTable(client, targetTable);
+    await writeManifest(client, targetTable, embeddingOptions, true, projection);
+  }
+
+  if (staged) {
+    await swapStagingTables(client, tableName);
+  }
+
+  // Remove rows whose source files were deleted
+  const { id: idColumn, slug: slugColumn } = columns.columns;
+
+  for (const slug of existing.keys()) {
+    if (!seen.has(slug) && (!scope || scope.some(path => pathCovers(path, slug, fileExtensions)))) {
+      if (hasChunks) {
+        await client.execute({
+          sql: `DELETE FROM ${chunksTable}
+                WHERE article_id IN (SELECT ${idColumn} FROM ${tableName} WHERE ${slugColumn} = ?)`,
+          args: [slug]
+        });
       }
-    } else if (extensions.includes(extname(entry.name))) {
-      const relativePath = relative(baseDir, fullPath);
-      const folder = dirname(relativePath);
-
-      files.push({
-        fullPath,
-        relativePath,
-        folder: folder === '.' ? 'root' : folder
+      if (hasFts) {
+        await client.execute({
+          sql: `DELETE FROM ${ftsTable}
+                WHERE rowid IN (SELECT ${idColumn} FROM ${tableName} WHERE ${slugColumn} = ?)`,
+          args: [slug]
+        });
+      }
+      await client.execute({
+        sql: `DELETE FROM ${tableName} WHERE ${slugColumn} = ?`,
+        args: [slug]
       });
+      result.deleted++;
     }
   }
 
-  return files;
+  return result;
+}
+
+/**
+ * Index documents the caller already has, e.g. pages rendered by a site
+ * generator. Each `raw` text is read by the content loader for its path's
+ * extension. The list is the whole content set: with `incremental: true`,
+ * rows for documents not in it are removed.
+ */
+export async function indexDocuments(
+  client: Client,
+  documents: DocumentInput[],
+  options: Omit<IndexerOptions, 'client' | 'contentPath' | 'source' | 'paths'> = {}
+): Promise<IndexResult> {
+  return indexContent({ ...options, client, source: createMemorySource(documents) });
 }
 
 /**
- * Process a single file into an indexed document
+ * Resolve a path given in `paths` to a forward-slash path relative to the
+ * content directory ('' for the directory itself)
  */
-async function processFile(
-  file: { fullPath: string; relativePath: string; folder: string },
-  embeddingOptions: EmbeddingOptions
-): Promise<IndexedDocument> {
-  const content = await readFile(file.fullPath, 'utf-8');
-  const { data: frontMatter, content: markdown } = matter(content);
+function scopePath(contentPath: string, path: string): string {
+  const relativePath = relative(resolve(contentPath), resolve(contentPath, path)).replace(/\\/g, '/');
+
+  if (relativePath === '..' || relativePath.startsWith('../')) {
+    throw new Error(`Path ${path} is outside ${contentPath}`);
+  }
+  return relativePath;
+}
 
-  // Generate slug from relative path
-  const slug = file.relativePath
-    .replace(/\.(md|markdown)$/, '')
+/**
+ * Check whether a stored slug came from the file at `path` or from under it
+ */
+function pathCovers(path: string, slug: string, extensions: string[]): boolean {
+  return path === '' ||
+    slug.startsWith(`${path}/`) ||
+    (extensions.includes(extname(path)) && slugFromPath(path) === slug);
+}
+
+/**
+ * Generate slug from relative path, without the file extension
+ */
+function slugFromPath(relativePath: string): string {
+  return relativePath
+    .replace(/\.[^./\\]+$/, '')
     .replace(/\\/g, '/');
+}
+
+/**
+ * Hash the embedding input and stored frontmatter together with the model
+ * that will embed it, so switching providers, models, chunk or normalization
+ * settings also invalidates stored rows
+ */
+function hashContent(
+  parsed: ParsedFile,
+  embeddingOptions: EmbeddingOptions,
+  chunkingOptions: ChunkingOptions | null,
+  normalizeOptions: NormalizeOptions | null
+): string {
+  return createHash('sha256')
+    .update(getEmbeddingModelId(embeddingOptions))
+    .update('\0')
+    .update(JSON.stringify(chunkingOptions))
+    .update('\0')
+    .update(JSON.stringify(normalizeOptions))
+    .update('\0')
+    .update(JSON.stringify(parsed.metadata ?? {}))
+    .update('\0')
+    .update(parsed.embeddingText)
+    .digest('hex');
+}
+
+/**
+ * A parsed file that has not been embedded yet
+ */
+interface ParsedFile extends Omit<IndexedDocument, 'embedding'> {
+  embeddingText: string;
+}
+
+/**
+ * Load a single document into document fields and its embedding text
+ */
+async function parseDocument(
+  document: SourceDocument,
+  normalizeOptions: NormalizeOptions | null
+): Promise<ParsedFile> {
+  const path = document.path.replace(/\\/g, '/');
+  const extension = extname(path);
+  const loader = getContentLoader(extension);
+
+  if (!loader) {
+    throw new Error(`No content loader for ${extension || 'extensionless'} files. Register one with registerContentLoader.`);
+  }
+
+  const loaded = await loader(document.raw, { relativePath: path });
+  const frontMatter = loaded.metadata ?? {};
+  const markdown = loaded.content;
+
+  const slug = slugFromPath(path);
+  const folder = dirname(path);
 
   // Extract metadata
-  const title = frontMatter.title || file.relativePath
+  const title = loaded.title || frontMatter.title || slug
     .split('/').pop()
-    ?.replace(/\.(md|markdown)$/, '')
-    .replace(/-/g, ' ') || 'Untitled';
+    ?.replace(/-/g, ' ') || 'Untitled';
 
   const tags = Array.isArray(frontMatter.tags) ? frontMatter.tags : [];
 
-  // Generate embedding
+  const description = typeof frontMatter.description === 'string'
+    ? frontMatter.description
+    : null;
+
   const embeddingText = prepareTextForEmbedding({
     title,
     description: frontMatter.description,
-    content: markdown,
+    content: normalizeOptions ? normalizeMarkdown(markdown, normalizeOptions) : markdown,
     tags
   });
 
-  const embedding = await generateEmbedding(embeddingText, embeddingOptions);
-
   return {
     slug,
     title,
     content: markdown,
-    folder: file.folder,
+    folder: folder === '.' ? 'root' : folder,
     tags,
-    embedding,
-    metadata: frontMatter
+    metadata: frontMatter,
+    description,
+    publishedAt: parsePublishedDate(frontMatter),
+    updatedAt: document.lastModified ? document.lastModified.toISOString() : null,
+    embeddingText
   };
 }
 
 /**
- * Insert document into database
+ * Read the publication date from common frontmatter keys as an ISO string
+ */
+function parsePublishedDate(frontMatter: Record<string, any>): string | null {
+  const value = frontMatter.date ?? frontMatter.published ?? frontMatter.publishDate ?? frontMatter.pubDate;
+
+  if (!(value instanceof Date) && typeof value !== 'string') {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Generate embeddings for parsed files, including their chunks, in one
+ * batched request for the texts missing from the cache
+ */
+async function embedDocuments(
+  pending: Array<{ parsed: ParsedFile; contentHash: string }>,
+  options: EmbeddingOptions & BatchOptions,
+  chunkingOptions: ChunkingOptions | null,
+  normalizeOptions: NormalizeOptions | null,
+  cache?: EmbeddingCache
+): Promise<IndexedDocument[]> {
+  const texts: string[] = [];
+
+  const planned = pending.map(({ parsed, contentHash }) => {
+    const { embeddingText, ...fields } = parsed;
+    const chunks = chunkingOptions ? chunkMarkdown(fields.content, chunkingOptions) : null;
+
+    texts.push(embeddingText);
+    for (const chunk of chunks ?? []) {
+      const content = normalizeOptions ? normalizeMarkdown(chunk.content, normalizeOptions) : chunk.content;
+      texts.push([fields.title, chunk.heading, content].filter(Boolean).join('\n\n'));
+    }
+
+    return { fields, contentHash, chunks };
+  });
+
+  const embeddings = await embedTexts(texts, options, cache);
+  let next = 0;
+
+  return planned.map(({ fields, contentHash, chunks }) => {
+    const embedding = embeddings[next++];
+
+    if (!chunks) {
+      return { ...fields, embedding, contentHash };
+    }
+
+    return {
+      ...fields,
+      embedding,
+      contentHash,
+      chunks: chunks.map(chunk => ({ ...chunk, embedding: embeddings[next++] }))
+    };
+  });
+}
+
+/**
+ * Embed texts as documents, reading and filling the cache when given
  */
-async function insertDocument(
+async function embedTexts(
+  texts: string[],
+  options: EmbeddingOptions & BatchOptions,
+  cache?: EmbeddingCache
+): Promise<number[][]> {
+  const documentOptions = { ...options, inputType: 'document' as const };
+
+  if (!cache) {
+    return generateEmbeddings(texts, documentOptions);
+  }
+
+  const keys = texts.map(text => documentCacheKey(text, options));
+  const embeddings: Array<number[] | null> = [];
+  for (const key of keys) {
+    embeddings.push(await cache.get(key));
+  }
+
+  const missing = texts.flatMap((_, i) => embeddings[i] ? [] : [i]);
+  if (missing.length > 0) {
+    const fresh = await generateEmbeddings(missing.map(i => texts[i]), documentOptions);
+
+    for (let j = 0; j < missing.length; j++) {
+      embeddings[missing[j]] = fresh[j];
+      await cache.set(keys[missing[j]], fresh[j]);
+    }
+  }
+
+  return embeddings as number[][];
+}
+
+/**
+ * Insert document into database, replacing any existing row with the same slug.
+ * Only the columns `schema` maps are written. Returns the row id.
+ */
+async function upsertDocument(
   client: Client,
   document: IndexedDocument,
-  tableName: string
+  tableName: string,
+  storage: VectorStorage,
+  schema: ResolvedSchema
+): Promise<number> {
+  const embedding = JSON.stringify(document.embedding);
+
+  // Each field's value expression, its arguments and whether a conflict updates it
+  const fields: Array<[SchemaField, string, InValue[], boolean]> = [
+    ['slug', '?', [document.slug], false],
+    ['title', '?', [document.title], true],
+    ['content', '?', [document.content], true],
+    ['folder', '?', [document.folder], true],
+    ['tags', '?', [JSON.stringify(document.tags)], true],
+    ['embedding', `${vectorFunction(storage.type)}(?)`, [embedding], true],
+    ['embedding_full', 'vector(?)', [embedding], true],
+    ['content_hash', '?', [document.contentHash ?? null], true],
+    ['metadata', '?', [JSON.stringify(document.metadata ?? {})], true],
+    ['description', '?', [document.description ?? null], true],
+    ['published_at', 'datetime(?)', [document.publishedAt ?? null], true],
+    ['created_at', "datetime('now')", [], false],
+    ['updated_at', "COALESCE(datetime(?), datetime('now'))", [document.updatedAt ?? null], true]
+  ];
+
+  const values = [
+    ...fields.flatMap(([field, value, args, update]) => {
+      const column = schema.columns[field];
+      const written = column && (field !== 'embedding_full' || storage.rescore);
+      return written ? [{ column, value, args, update }] : [];
+    }),
+    ...schema.extraColumns.map(({ column, field }) => ({
+      column,
+      value: '?',
+      args: [toColumnValue(document.metadata?.[field])],
+      update: true
+    }))
+  ];
+
+  const result = await client.execute({
+    sql: `INSERT INTO ${tableName}
+          (${values.map(({ column }) => column).join(', ')})
+          VALUES (${values.map(({ value }) => value).join(', ')})
+          ON CONFLICT(${schema.columns.slug}) DO UPDATE SET
+            ${values.filter(({ update }) => update)
+              .map(({ column }) => `${column} = excluded.${column}`)
+              .join(',\n            ')}
+          RETURNING ${schema.columns.id} AS id`,
+    args: values.flatMap(({ args }) => args)
+  });
+
+  return Number(result.rows[0].id);
+}
+
+/**
+ * Convert a frontmatter value for an extra column: dates as ISO strings,
+ * booleans as 0 or 1 and objects as JSON
+ */
+function toColumnValue(value: unknown): InValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'boolean') {
+    return Number(value);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value as InValue;
+}
+
+/**
+ * SQL fragments writing the float32 copy of a chunk embedding, when the table keeps one
+ */
+function fullVectorSql(storage: VectorStorage): { column: string; value: string } {
+  if (!storage.rescore) {
+    return { column: '', value: '' };
+  }
+
+  return { column: ', embedding_full', value: ', vector(?)' };
+}
+
+/**
+ * Replace the stored chunks of an article
+ */
+async function replaceChunks(
+  client: Client,
+  chunksTable: string,
+  articleId: number,
+  chunks: IndexedChunk[],
+  storage: VectorStorage
+): Promise<void> {
+  await deleteChunks(client, chunksTable, articleId);
+
+  for (const chunk of chunks) {
+    const embedding = JSON.stringify(chunk.embedding);
+    const full = fullVectorSql(storage);
+
+    await client.execute({
+      sql: `INSERT INTO ${chunksTable}
+            (article_id, chunk_index, heading, anchor, content, start_offset, end_offset,
+             embedding${full.column})
+            VALUES (?, ?, ?, ?, ?, ?, ?, ${vectorFunction(storage.type)}(?)${full.value})`,
+      args: [
+        articleId,
+        chunk.index,
+        chunk.heading,
+        chunk.anchor,
+        chunk.content,
+        chunk.start,
+        chunk.end,
+        embedding,
+        ...(storage.rescore ? [embedding] : [])
+      ]
+    });
+  }
+}
+
+/**
+ * Delete the stored chunks of an article
+ */
+async function deleteChunks(
+  client: Client,
+  chunksTable: string,
+  articleId: number
 ): Promise<void> {
   await client.execute({
-    sql: `INSERT INTO ${tableName}
-          (slug, title, content, folder, tags, embedding, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, vector(?), datetime('now'), datetime('now'))`,
-    args: [
-      document.slug,
-      document.title,
-      document.content,
-      document.folder,
-      JSON.stringify(document.tags),
-      JSON.stringify(document.embedding)
-    ]
+    sql: `DELETE FROM ${chunksTable} WHERE article_id = ?`,
+    args: [articleId]
+  });
+}
+
+/**
+ * Replace the full-text entry of an article, keyed by the article id
+ */
+async function replaceKeywords(
+  client: Client,
+  ftsTable: string,
+  articleId: number,
+  document: IndexedDocument
+): Promise<void> {
+  await client.execute({
+    sql: `DELETE FROM ${ftsTable} WHERE rowid = ?`,
+    args: [articleId]
+  });
+
+  await client.execute({
+    sql: `INSERT INTO ${ftsTable} (rowid, title, content, tags) VALUES (?, ?, ?, ?)`,
+    args: [articleId, document.title, document.content, document.tags.join(' ')]
   });
 }
 
+/**
+ * Read the vector size declared by a table's `embedding` column, or null
+ * if the table does not exist
+ */
+export async function getTableDimensions(client: Client, tableName: string): Promise<number | null> {
+  const storage = await getVectorStorage(client, tableName);
+  return storage ? storage.dimensions : null;
+}
+
+/**
+ * Check whether a table exists
+ */
+export async function tableExists(client: Client, name: string): Promise<boolean> {
+  const result = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [name]
+  });
+  return result.rows.length > 0;
+}
+
+/**
+ * Check whether a table exists and holds at least one row
+ */
+async function hasRows(client: Client, name: string): Promise<boolean> {
+  if (!await tableExists(client, name)) {
+    return false;
+  }
+  const result = await client.execute(`SELECT 1 FROM ${name} LIMIT 1`);
+  return result.rows.length > 0;
+}
+
+/**
+ * Format tuning parameters as extra `libsql_vector_idx` arguments
+ */
+function vectorIndexParams(options: VectorIndexOptions): string {
+  const params: string[] = [];
+
+  if (options.metric) {
+    if (!['cosine', 'l2'].includes(options.metric)) {
+      throw new Error(`Unknown vector index metric: ${options.metric}`);
+    }
+    params.push(`metric=${options.metric}`);
+  }
+  if (options.compressNeighbors) {
+    if (!['float1bit', 'float8', 'float16', 'floatb16', 'float32'].includes(options.compressNeighbors)) {
+      throw new Error(`Unknown compress_neighbors type: ${options.compressNeighbors}`);
+    }
+    params.push(`compress_neighbors=${options.compressNeighbors}`);
+  }
+  if (options.maxNeighbors !== undefined) {
+    if (!Number.isInteger(options.maxNeighbors) || options.maxNeighbors <= 0) {
+      throw new Error('maxNeighbors must be a positive integer');
+    }
+    params.push(`max_neighbors=${options.maxNeighbors}`);
+  }
+
+  return params.map(param => `, '${param}'`).join('');
+}
+
+/**
+ * Add columns that an existing table is missing
+ */
+async function addMissingColumns(
+  client: Client,
+  tableName: string,
+  columns: Record<string, string>
+): Promise<void> {
+  const existing = await client.execute(`PRAGMA table_info(${tableName})`);
+  const names = new Set(existing.rows.map(row => row.name as string));
+
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!names.has(name)) {
+      await client.execute(`ALTER TABLE ${tableName} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
+
 /**
  * Create the articles table if it doesn't exist
+ *
+ * With `embeddingOptions` the model is recorded in `${tableName}_manifest`,
+ * unless the table already has a manifest. `dimensions` defaults to the size
+ * the model produces, the default local model's without `embeddingOptions`.
+ *
+ * `vectorType` compresses stored vectors and their index. With `rescore`,
+ * float32 copies are kept alongside so search can rerank the compressed
+ * shortlist; an existing compressed table gains the column when missing.
+ *
+ * With a `schema`, columns get the mapped names and fields mapped to null are
+ * left out. An existing table gains the embedding and extra columns it lacks,
+ * so an application's own table can be prepared for indexing.
  */
 export async function createTable(
   client: Client,
   tableName: string = 'articles',
-  dimensions: number = 768
+  dimensions?: number,
+  options: CreateTableOptions = {}
 ): Promise<void> {
+  const {
+    chunks = false,
+    fts = false,
+    vectorIndex = {},
+    embeddingOptions,
+    vectorType = 'F32',
+    rescore = false,
+    schema
+  } = options;
+  const indexParams = vectorIndexParams(vectorIndex);
+  const { columns, extraColumns } = resolveSchema(schema);
+
+  assertVectorType(vectorType);
+  if (rescore && vectorType === 'F32') {
+    throw new Error("rescore requires a compressed vectorType ('F16', 'F8' or 'F1BIT')");
+  }
+  if (rescore && !columns.embedding_full) {
+    throw new Error('rescore requires an embedding_full column, but the schema maps it to null');
+  }
+
+  dimensions ??= resolveEmbedder(embeddingOptions ?? {}).dimensions;
+  const column = vectorColumnType(vectorType, dimensions);
+  const fullColumn = vectorColumnType('F32', dimensions);
+
+  const definitions: Array<[SchemaField, string]> = [
+    ['id', 'INTEGER PRIMARY KEY AUTOINCREMENT'],
+    ['slug', 'TEXT UNIQUE NOT NULL'],
+    ['title', 'TEXT NOT NULL'],
+    ['content', 'TEXT NOT NULL'],
+    ['folder', "TEXT NOT NULL DEFAULT 'root'"],
+    ['tags', "TEXT DEFAULT '[]'"],
+    ['embedding', column],
+    ['content_hash', 'TEXT'],
+    ['metadata', "TEXT DEFAULT '{}'"],
+    ['description', 'TEXT'],
+    ['published_at', 'TEXT'],
+    ['created_at', 'TEXT NOT NULL'],
+    ['updated_at', 'TEXT NOT NULL']
+  ];
+
   await client.execute(`
     CREATE TABLE IF NOT EXISTS ${tableName} (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      slug TEXT UNIQUE NOT NULL,
-      title TEXT NOT NULL,
-      content TEXT NOT NULL,
-      folder TEXT NOT NULL DEFAULT 'root',
-      tags TEXT DEFAULT '[]',
-      embedding F32_BLOB(${dimensions}),
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
+      ${[
+        ...definitions.flatMap(([field, type]) => columns[field] ? [`${columns[field]} ${type}`] : []),
+        ...extraColumns.map(extra => `${extra.column} ${extra.type}`)
+      ].join(',\n      ')}
     )
   `);
 
+  // Tables created by older versions, or by the application, lack the newer columns
+  const added: Array<[SchemaField, string]> = [
+    ['embedding', column],
+    ['content_hash', 'TEXT'],
+    ['metadata', "TEXT DEFAULT '{}'"],
+    ['description', 'TEXT'],
+    ['published_at', 'TEXT'],
+    ...(rescore ? [['embedding_full', fullColumn] as [SchemaField, string]] : [])
+  ];
+
+  await addMissingColumns(client, tableName, Object.fromEntries([
+    ...added.flatMap(([field, type]) => columns[field] ? [[columns[field], type]] : []),
+    ...extraColumns.map(extra => [extra.column, extra.type])
+  ]));
+
   await client.execute(`
     CREATE INDEX IF NOT EXISTS ${tableName}_embedding_idx
-    ON ${tableName}(libsql_vector_idx(embedding))
+    ON ${tableName}(libsql_vector_idx(${columns.embedding}${indexParams}))
   `);
 
-  await client.execute(`
-    CREATE INDEX IF NOT EXISTS ${tableName}_folder_idx
-    ON ${tableName}(folder)
-  `);
+  if (columns.folder) {
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_folder_idx
+      ON ${tableName}(${columns.folder})
+    `);
+  }
 
   await client.execute(`
     CREATE INDEX IF NOT EXISTS ${tableName}_slug_idx
-    ON ${tableName}(slug)
+    ON ${tableName}(${columns.slug})
   `);
+
+  if (chunks) {
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${tableName}_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        article_id INTEGER NOT NULL REFERENCES ${tableName}(${columns.id}),
+        chunk_index INTEGER NOT NULL,
+        heading TEXT,
+        anchor TEXT,
+        content TEXT NOT NULL,
+        start_offset INTEGER NOT NULL,
+        end_offset INTEGER NOT NULL,
+        embedding ${column}
+      )
+    `);
+
+    await addMissingColumns(client, `${tableName}_chunks`, rescore ? { embedding_full: fullColumn } : {});
+
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_chunks_embedding_idx
+      ON ${tableName}_chunks(libsql_vector_idx(embedding${indexParams}))
+    `);
+
+    await client.execute(`
+      CREATE INDEX IF NOT EXISTS ${tableName}_chunks_article_idx
+      ON ${tableName}_chunks(article_id)
+    `);
+  }
+
+  if (fts) {
+    await client.execute(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${tableName}_fts
+      USING fts5(title, content, tags)
+    `);
+  }
+
+  await createManifestTable(client, tableName);
+
+  if (embeddingOptions) {
+    await writeManifest(client, tableName, embeddingOptions, false);
+  }
+
+  // The table now has every column and index the migrations add
+  await recordSchemaVersion(client, tableName);
 }
@@ -0,0 +1,311 @@
+/**
+ * Content loaders: turn source files of each format into text for indexing
+ */
+
+import matter from 'gray-matter';
+
+/**
+ * A loaded file. `content` is stored, chunked and embedded; markdown
+ * headings in it become chunk headings.
+ */
+export interface LoadedContent {
+  content: string;
+  /** Falls back to `metadata.title`, then the file name */
+  title?: string;
+  /** Frontmatter-like fields; `tags`, `description` and dates are read from it */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Load the source text of a file
+ */
+export type ContentLoader = (
+  source: string,
+  file: { relativePath: string }
+) => LoadedContent | Promise<LoadedContent>;
+
+const loaders = new Map<string, ContentLoader>();
+
+/**
+ * Register a loader for files with `extension`, e.g. '.adoc'. Registering an
+ * existing extension replaces its loader.
+ */
+export function registerContentLoader(extension: string, loader: ContentLoader): void {
+  if (!/^\.[^./\\]+$/.test(extension)) {
+    throw new Error(`Content loader extension must look like '.ext', got '${extension}'`);
+  }
+
+  loaders.set(extension.toLowerCase(), loader);
+}
+
+/**
+ * Get the loader for files with `extension`, or null when none is registered
+ */
+export function getContentLoader(extension: string): ContentLoader | null {
+  return loaders.get(extension.toLowerCase()) ?? null;
+}
+
+/**
+ * Markdown with YAML frontmatter
+ */
+function loadMarkdown(source: string): LoadedContent {
+  const { data, content } = matter(source);
+  return { content, metadata: data };
+}
+
+/**
+ * MDX: markdown without ESM statements, JSX comments and component tags.
+ * The text inside components is kept; fenced code is left untouched.
+ */
+function loadMdx(source: string): LoadedContent {
+  const { data, content } = matter(source);
+
+  const text = content
+    .split(/(^(?:```|~~~)[^\n]*\n[\s\S]*?^(?:```|~~~)[^\n]*$)/m)
+    .map((segment, i) => i % 2 === 1 ? segment : stripJsx(stripEsm(segment)))
+    .join('');
+
+  return { content: text.replace(/\n{3,}/g, '\n\n').trim(), metadata: data };
+}
+
+/**
+ * Remove `import` and `export` statements, which may span several lines
+ */
+function stripEsm(text: string): string {
+  const kept: string[] = [];
+  let statement: 'import' | 'export' | null = null;
+  let depth = 0;
+
+  for (const line of text.split('\n')) {
+    if (!statement) {
+      const keyword = /^(import|export)\s/.exec(line)?.[1] as 'import' | 'export' | undefined;
+      if (!keyword) {
+        kept.push(line);
+        continue;
+      }
+      statement = keyword;
+      depth = 0;
+    }
+
+    depth += (line.match(/[{[(]/g) ?? []).length - (line.match(/[}\])]/g) ?? []).length;
+
+    // Statements end once brackets close, and imports once they name their source
+    if (depth <= 0 && (statement === 'export' || /['"]\s*;?\s*$/.test(line))) {
+      statement = null;
+    }
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Remove JSX comments, fragments and capitalized component tags, whose
+ * attributes may contain one level of braces
+ */
+function stripJsx(text: string): string {
+  return text
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+    .replace(/<\/?>/g, '')
+    .replace(/<\/?[A-Z][\w.]*(?:[^>{}]|\{[^{}]*\})*>/g, '');
+}
+
+/**
+ * HTML: the title, description and the text of `<main>`, `<article>` or
+ * `<body>`, with headings kept as markdown headings
+ */
+function loadHtml(source: string): LoadedContent {
+  const html = source
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  // Documents without a <head> may still have <title> and <meta> tags
+  const head = /<head\b[\s\S]*?<\/head\s*>/i.exec(html)?.[0] ?? '';
+  const meta = head || html;
+  const root = /<main\b[^>]*>([\s\S]*?)<\/main\s*>/i.exec(html)?.[1]
+    ?? /<article\b[^>]*>([\s\S]*?)<\/article\s*>/i.exec(html)?.[1]
+    ?? (/<body\b[^>]*>([\s\S]*?)(?:<\/body\s*>|$)/i.exec(html)?.[1] ?? html.replace(head, ''))
+      .replace(/<(nav|header|footer|aside)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  const metadata: Record<string, any> = {};
+  const title = htmlText(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(meta)?.[1] ?? '')
+    || htmlText(/<h1\b[^>]*>([\s\S]*?)<\/h1\s*>/i.exec(root)?.[1] ?? '');
+  const description = metaContent(meta, 'description');
+  const keywords = metaContent(meta, 'keywords');
+  const published = metaContent(meta, 'article:published_time');
+
+  if (description) {
+    metadata.description = description;
+  }
+  if (keywords) {
+    metadata.tags = keywords.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+  if (published) {
+    metadata.date = published;
+  }
+
+  const content = root
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level, inner) =>
+      `\n\n${'#'.repeat(Number(level))} ${htmlText(inner)}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|ul|ol|table|tr|blockquote|pre|figure|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .map(line => decodeEntities(line).replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { content, ...(title && { title }), metadata };
+}
+
+/**
+ * Read the content of a `<meta>` tag by name or property
+ */
+function metaContent(head: string, name: string): string | null {
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = /\b(?:name|property)\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    if (key?.toLowerCase() === name) {
+      const value = /\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i.exec(tag);
+      return value ? decodeEntities(value[1] ?? value[2]).trim() || null : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Text of an HTML fragment on one line
+ */
+function htmlText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  mdash: '—', ndash: '–', hellip: '…', copy: '©', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“'
+};
+
+/**
+ * Decode named and numeric character references
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Plain text, stored as is
+ */
+function loadText(source: string): LoadedContent {
+  return { content: source };
+}
+
+/**
+ * JSON data file holding one object
+ */
+function loadJson(source: string): LoadedContent {
+  return loadData(JSON.parse(source));
+}
+
+/**
+ * YAML data file holding one mapping, parsed with gray-matter's YAML engine
+ */
+function loadYaml(source: string): LoadedContent {
+  return loadData(matter(`---\n${source}\n---\n`).data);
+}
+
+/**
+ * Index a data object: `content`, `body` or `text` is the content (otherwise
+ * its other string fields are joined) and the remaining fields are metadata
+ */
+function loadData(data: unknown): LoadedContent {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Data files must contain an object');
+  }
+
+  const fields = { ...data } as Record<string, any>;
+  const key = ['content', 'body', 'text'].find(name => typeof fields[name] === 'string');
+
+  if (key) {
+    const content = fields[key] as string;
+    delete fields[key];
+    return { content, metadata: fields };
+  }
+
+  const content = Object.entries(fields)
+    .filter(([name, value]) => name !== 'title' && name !== 'description' && typeof value === 'string')
+    .map(([, value]) => value)
+    .join('\n\n');
+
+  return { content, metadata: fields };
+}
+
+/**
+ * reStructuredText: section titles become markdown headings, directives and
+ * comments are dropped and common inline markup is reduced to its text
+ */
+function loadRst(source: string): LoadedContent {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const adornment = /^([=\-~^"'`#*+:._])\1{2,}\s*$/;
+  const levels: string[] = [];
+  const output: string[] = [];
+  let title: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1] ?? '';
+
+    if (line.trim() && !adornment.test(line) && adornment.test(next) && !/^\s/.test(line)) {
+      const overlined = adornment.test(lines[i - 1] ?? '') && lines[i - 1][0] === next[0];
+      const style = (overlined ? 'o' : 'u') + next[0];
+      if (!levels.includes(style)) {
+        levels.push(style);
+      }
+
+      const text = rstInline(line.trim());
+      title ??= text;
+      output.push(`${'#'.repeat(Math.min(levels.indexOf(style) + 1, 6))} ${text}`);
+      i++;
+      continue;
+    }
+
+    if (adornment.test(line) || /^\.\.\s/.test(line)) {
+      continue;
+    }
+
+    output.push(rstInline(line));
+  }
+
+  return {
+    content: output.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    ...(title && { title })
+  };
+}
+
+/**
+ * Reduce links, roles, literals and substitutions to their text
+ */
+function rstInline(text: string): string {
+  return text
+    .replace(/`([^`<]+?)\s*<[^>]+>`__?/g, '$1')
+    .replace(/:[\w-]+:`([^`]+)`/g, '$1')
+    .replace(/``([^`]+)``/g, '$1')
+    .replace(/`([^`]+)`_{0,2}/g, '$1')
+    .replace(/\|([^|\s][^|]*)\|/g, '$1');
+}
+
+registerContentLoader('.md', loadMarkdown);
+registerContentLoader('.markdown', loadMarkdown);
+registerContentLoader('.mdx', loadMdx);
+registerContentLoader('.html', loadHtml);
+registerContentLoader('.htm', loadHtml);
+registerContentLoader('.txt', loadText);
+registerContentLoader('.json', loadJson);
+registerContentLoader('.yaml', loadYaml);
+registerContentLoader('.yml', loadYaml);
+registerContentLoader('.rst', loadRst);
@@ -0,0 +1,232 @@
+/**
+ * Index manifest: records which embedding model produced a table's vectors
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { resolveEmbedder, type EmbeddingOptions, type Embedder } from './embeddings.js';
+import type { PcaProjection } from './pca.js';
+import { VERSION } from './version.js';
+
+export interface IndexManifest {
+  provider: string;
+  modelId: string;
+  dimensions: number;
+  normalization: string | null;
+  libraryVersion: string;
+  indexedAt: string | null;
+  projection: PcaProjection | null;
+}
+
+/** Parsed PCA projections by client and table, with the manifest they were read with */
+const projections = new WeakMap<Client, Map<string, { modelId: string; indexedAt: string | null; projection: PcaProjection | null }>>();
+
+/**
+ * Thrown by `search`, and by incremental `indexContent` runs, when their
+ * embedding options do not match the model recorded in the table's manifest
+ */
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    public readonly tableName: string,
+    public readonly indexed: IndexManifest,
+    public readonly requested: { provider: string; modelId: string; dimensions: number },
+    public readonly operation: 'search' | 'update' = 'search'
+  ) {
+    super(
+      `Embedding model mismatch for table "${tableName}": indexed with ` +
+      `${indexed.modelId} (${indexed.dimensions} dimensions) but ` +
+      `${operation === 'search' ? 'searching' : 'updating it'} with ` +
+      `${requested.modelId} (${requested.dimensions} dimensions). ` +
+      (operation === 'search'
+        ? 'Search with the embeddingOptions used for indexing, or re-index the table.'
+        : 'Update it with the embeddingOptions used for indexing, or re-index every document ' +
+          'with a full run (without incremental or paths) to switch models.')
+    );
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+/**
+ * SQL creating the single-row manifest table for `tableName`
+ */
+export function manifestTableSql(tableName: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${tableName}_manifest (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      provider TEXT NOT NULL,
+      model_id TEXT NOT NULL,
+      dimensions INTEGER NOT NULL,
+      normalization TEXT,
+      library_version TEXT NOT NULL,
+      indexed_at TEXT,
+      projection TEXT
+    )`;
+}
+
+/**
+ * Create the single-row manifest table for `tableName`
+ */
+export async function createManifestTable(client: Client, tableName: string): Promise<void> {
+  await client.execute(manifestTableSql(tableName));
+
+  // Manifests created by older versions lack the projection column
+  const columns = await client.execute(`PRAGMA table_info(${tableName}_manifest)`);
+  if (!columns.rows.some(column => column.name === 'projection')) {
+    await client.execute(`ALTER TABLE ${tableName}_manifest ADD COLUMN projection TEXT`);
+  }
+}
+
+/**
+ * Record the embedding model for `tableName`, and the PCA projection when
+ * one is used. With `indexed: false` an existing manifest is kept, since the
+ * stored vectors still come from it.
+ */
+export async function writeManifest(
+  client: Client,
+  tableName: string,
+  embeddingOptions: EmbeddingOptions,
+  indexed: boolean,
+  projection: PcaProjection | null = null
+): Promise<void> {
+  await client.execute(manifestStatement(tableName, embeddingOptions, indexed, projection));
+  forgetProjection(client, tableName);
+}
+
+/**
+ * The statement `writeManifest` runs, for writing the manifest in a batch
+ */
+export function manifestStatement(
+  tableName: string,
+  embeddingOptions: EmbeddingOptions,
+  indexed: boolean,
+  projection: PcaProjection | null = null
+): InStatement {
+  const embedder = resolveEmbedder(embeddingOptions);
+
+  return {
+    sql: `INSERT INTO ${tableName}_manifest
+          (id, provider, model_id, dimensions, normalization, library_version, indexed_at, projection)
+          VALUES (1, ?, ?, ?, ?, ?, ${indexed ? "datetime('now')" : 'NULL'}, ?)
+          ON CONFLICT(id) DO ${indexed ? `UPDATE SET
+            provider = excluded.provider,
+            model_id = excluded.model_id,
+            dimensions = excluded.dimensions,
+            normalization = excluded.normalization,
+            library_version = excluded.library_version,
+            indexed_at = excluded.indexed_at,
+            projection = excluded.projection` : 'NOTHING'}`,
+    args: [
+      providerName(embeddingOptions),
+      embedder.modelId,
+      embedder.dimensions,
+      embedder.normalization ?? null,
+      VERSION,
+      projection ? JSON.stringify(projection) : null
+    ]
+  };
+}
+
+/**
+ * Read the manifest for `tableName`, or null for tables indexed before
+ * manifests were recorded. With `projection: false` the stored PCA
+ * projection, which can hold hundreds of thousands of numbers, is not read
+ * and comes back as null.
+ */
+export async function getIndexManifest(
+  client: Client,
+  tableName: string = 'articles',
+  options: { projection?: boolean } = {}
+): Promise<IndexManifest | null> {
+  const { projection = true } = options;
+
+  const exists = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [`${tableName}_manifest`]
+  });
+
+  if (exists.rows.length === 0) {
+    return null;
+  }
+
+  const result = await client.execute(`
+    SELECT provider, model_id, dimensions, normalization, library_version, indexed_at,
+      ${projection ? 'projection' : 'NULL AS projection'}
+    FROM ${tableName}_manifest
+    WHERE id = 1
+  `);
+  const row = result.rows[0];
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    provider: row.provider as string,
+    modelId: row.model_id as string,
+    dimensions: Number(row.dimensions),
+    normalization: row.normalization as string | null,
+    libraryVersion: row.library_version as string,
+    indexedAt: row.indexed_at as string | null,
+    projection: row.projection ? JSON.parse(row.projection as string) as PcaProjection : null
+  };
+}
+
+/**
+ * The PCA projection stored with `manifest`, a manifest of `tableName` read
+ * with `projection: false`. The parsed projection is kept per client and table
+ * until the manifest's model or `indexed_at` changes, so searches do not read
+ * and parse it again.
+ */
+export async function getManifestProjection(
+  client: Client,
+  tableName: string,
+  manifest: IndexManifest
+): Promise<PcaProjection | null> {
+  let tables = projections.get(client);
+  if (!tables) {
+    tables = new Map();
+    projections.set(client, tables);
+  }
+
+  const cached = tables.get(tableName);
+  if (cached && cached.modelId === manifest.modelId && cached.indexedAt === manifest.indexedAt) {
+    return cached.projection;
+  }
+
+  const stored = await getIndexManifest(client, tableName);
+  const projection = stored?.projection ?? null;
+  tables.set(tableName, { modelId: manifest.modelId, indexedAt: manifest.indexedAt, projection });
+  return projection;
+}
+
+/**
+ * Drop the cached projection of `tableName`, after its manifest is rewritten
+ * or replaced by another generation's
+ */
+export function forgetProjection(client: Client, tableName: string): void {
+  projections.get(client)?.delete(tableName);
+}
+
+/**
+ * Throw an EmbeddingMismatchError unless `embedder` matches the manifest
+ */
+export function assertManifestMatches(
+  manifest: IndexManifest,
+  tableName: string,
+  embeddingOptions: EmbeddingOptions,
+  embedder: Embedder,
+  operation: 'search' | 'update' = 'search'
+): void {
+  if (manifest.modelId === embedder.modelId && manifest.dimensions === embedder.dimensions) {
+    return;
+  }
+
+  throw new EmbeddingMismatchError(tableName, manifest, {
+    provider: providerName(embeddingOptions),
+    modelId: embedder.modelId,
+    dimensions: embedder.dimensions
+  }, operation);
+}
+
+function providerName(embeddingOptions: EmbeddingOptions): string {
+  const { provider = 'local' } = embeddingOptions;
+  return typeof provider === 'string' ? provider : 'custom';
+}
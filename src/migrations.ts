@@ -0,0 +1,462 @@
+/**
+ * Schema migrations: ordered upgrade steps for tables created by older
+ * versions, recorded in `${tableName}_migrations`
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import {
+  generateEmbeddings,
+  prepareTextForEmbedding,
+  resolveEmbedder,
+  type BatchOptions,
+  type EmbeddingOptions
+} from './embeddings.js';
+import { forgetProjection, manifestStatement, manifestTableSql } from './manifest.js';
+import { normalizeMarkdown, type NormalizeOptions } from './normalize.js';
+import { fieldSql, resolveSchema, type ResolvedSchema, type SchemaField, type TableSchema } from './schema.js';
+import { getVectorStorage, vectorColumnType, vectorFunction, type VectorStorage } from './vectors.js';
+
+export interface MigrateOptions {
+  tableName?: string;
+  /** Column mapping of the table (see TableSchema) */
+  schema?: TableSchema;
+  /**
+   * Vector size to migrate to. When it differs from the stored size the
+   * embedding columns and vector indexes are re-created and every article
+   * and chunk is re-embedded (default: the stored size, or the size
+   * `embeddingOptions` produce for a new table)
+   */
+  dimensions?: number;
+  /** Model that re-embeds the stored rows when `dimensions` changes */
+  embeddingOptions?: EmbeddingOptions;
+  /** Reduce stored markdown to plain text before re-embedding it (default true) */
+  normalize?: boolean | NormalizeOptions;
+  batch?: BatchOptions;
+  /** Return the statements that would run without changing anything */
+  dryRun?: boolean;
+}
+
+export interface MigrationResult {
+  /** Version recorded before the run; 0 for tables never migrated */
+  fromVersion: number;
+  toVersion: number;
+  /** Steps applied, or that would be with `dryRun` */
+  applied: Array<{ version: number; description: string }>;
+  /**
+   * Schema SQL run in one transaction, or that would be with `dryRun`. The
+   * re-embedded vectors and the manifest are written in the same transaction.
+   */
+  statements: string[];
+  /** Set when the vectors are re-created at a new size */
+  resized: { from: number; to: number } | null;
+  /** Articles and chunks re-embedded at the new size */
+  reembedded: number;
+  dryRun: boolean;
+}
+
+/**
+ * What a migration step sees of the database before the run
+ */
+interface TableState {
+  tableName: string;
+  schema: ResolvedSchema;
+  /** Lower-cased column names of each existing table */
+  tables: Map<string, Set<string>>;
+  /** SQL of each existing index */
+  indexes: Map<string, string>;
+  storage: VectorStorage | null;
+  /** Vector size for a table created by the run */
+  dimensions: number;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  /** Statements bringing the table from the previous version, skipping what already exists */
+  plan(state: TableState): string[];
+}
+
+/**
+ * Upgrade steps in order. Steps only add what is missing, so tables created
+ * before versions were recorded are brought up to date too.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the articles table and its indexes',
+    plan: state => {
+      const { tableName, schema: { columns } } = state;
+      const statements: string[] = [];
+
+      if (!state.tables.has(tableName)) {
+        const definitions: Array<[SchemaField, string]> = [
+          ['id', 'INTEGER PRIMARY KEY AUTOINCREMENT'],
+          ['slug', 'TEXT UNIQUE NOT NULL'],
+          ['title', 'TEXT NOT NULL'],
+          ['content', 'TEXT NOT NULL'],
+          ['folder', "TEXT NOT NULL DEFAULT 'root'"],
+          ['tags', "TEXT DEFAULT '[]'"],
+          ['embedding', vectorColumnType('F32', state.dimensions)],
+          ['created_at', 'TEXT NOT NULL'],
+          ['updated_at', 'TEXT NOT NULL']
+        ];
+        statements.push(`CREATE TABLE ${tableName} (\n  ${definitions
+          .flatMap(([field, type]) => columns[field] ? [`${columns[field]} ${type}`] : [])
+          .join(',\n  ')}\n)`);
+      } else {
+        statements.push(...addColumns(state, tableName, [
+          ['folder', "TEXT NOT NULL DEFAULT 'root'"],
+          ['tags', "TEXT DEFAULT '[]'"],
+          ['embedding', vectorColumnType('F32', state.dimensions)]
+        ]));
+      }
+
+      const indexes: Array<[string, string | null]> = [
+        [`${tableName}_embedding_idx`, `libsql_vector_idx(${columns.embedding})`],
+        [`${tableName}_folder_idx`, columns.folder],
+        [`${tableName}_slug_idx`, columns.slug]
+      ];
+      for (const [name, expression] of indexes) {
+        if (expression && !state.indexes.has(name)) {
+          statements.push(`CREATE INDEX ${name} ON ${tableName}(${expression})`);
+        }
+      }
+
+      return statements;
+    }
+  },
+  {
+    version: 2,
+    description: 'Store content hashes for incremental indexing',
+    plan: state => addColumns(state, state.tableName, [['content_hash', 'TEXT']])
+  },
+  {
+    version: 3,
+    description: 'Store frontmatter metadata, description and publication date',
+    plan: state => addColumns(state, state.tableName, [
+      ['metadata', "TEXT DEFAULT '{}'"],
+      ['description', 'TEXT'],
+      ['published_at', 'TEXT']
+    ])
+  },
+  {
+    version: 4,
+    description: 'Record the embedding model in a manifest table',
+    plan: state => {
+      const manifest = state.tables.get(`${state.tableName}_manifest`);
+
+      if (!manifest) {
+        return [manifestTableSql(state.tableName).replace(/\n {4}/g, '\n')];
+      }
+      return manifest.has('projection')
+        ? []
+        : [`ALTER TABLE ${state.tableName}_manifest ADD COLUMN projection TEXT`];
+    }
+  }
+];
+
+/** Schema version of tables created or migrated by this version of the library */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a table up to the current schema version
+ *
+ * Pending steps run in one transaction together with the version records, so
+ * a failed migration changes nothing. With `dimensions` different from the
+ * stored size, the stored articles and chunks are first re-embedded with
+ * `embeddingOptions`; the embedding columns and vector indexes (keeping their
+ * options) are then re-created, filled and the manifest rewritten in the same
+ * transaction. Stored content hashes are cleared, so the next incremental
+ * index refreshes every row.
+ *
+ * With `dryRun: true` nothing is changed and `statements` holds the SQL that
+ * would run.
+ */
+export async function migrate(client: Client, options: MigrateOptions = {}): Promise<MigrationResult> {
+  const {
+    tableName = 'articles',
+    schema,
+    dimensions,
+    embeddingOptions = {},
+    normalize = true,
+    batch = {},
+    dryRun = false
+  } = options;
+
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions <= 0)) {
+    throw new Error('dimensions must be a positive integer');
+  }
+
+  const fromVersion = await getSchemaVersion(client, tableName);
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Table ${tableName} is at schema version ${fromVersion}, but this version of the library ` +
+      `only knows up to ${SCHEMA_VERSION}. Upgrade libsql-search.`
+    );
+  }
+
+  const state = await readState(client, tableName, resolveSchema(schema), dimensions, embeddingOptions);
+  const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+  const resized = state.storage && dimensions !== undefined && dimensions !== state.storage.dimensions
+    ? { from: state.storage.dimensions, to: dimensions }
+    : null;
+
+  // Check the model before changing anything, since the old vectors are dropped
+  const reembedOptions = { ...embeddingOptions, dimensions: embeddingOptions.dimensions ?? dimensions };
+  if (resized) {
+    const embedder = resolveEmbedder(reembedOptions);
+
+    if (embedder.dimensions !== resized.to) {
+      throw new Error(
+        `Re-embedding at ${resized.to} dimensions needs embeddingOptions that produce them, ` +
+        `but ${embedder.modelId} produces ${embedder.dimensions}.`
+      );
+    }
+    if (reembedOptions.reduction === 'pca' && !reembedOptions.projection) {
+      throw new Error('PCA-reduced vectors cannot be re-embedded from stored rows. Re-index the content instead.');
+    }
+  }
+
+  const statements = [
+    ...pending.flatMap(migration => migration.plan(state)),
+    ...(resized ? resizeVectors(state, resized.to) : []),
+    ...versionStatements(tableName, pending)
+  ];
+
+  const result: MigrationResult = {
+    fromVersion,
+    toVersion: pending.length > 0 ? SCHEMA_VERSION : fromVersion,
+    applied: pending.map(({ version, description }) => ({ version, description })),
+    statements,
+    resized,
+    reembedded: 0,
+    dryRun
+  };
+
+  if (dryRun || statements.length === 0) {
+    return result;
+  }
+
+  // Embed before changing anything, so a failing provider leaves the old vectors in place
+  const writes: InStatement[] = [];
+
+  if (resized) {
+    const normalizeOptions = normalize === true ? {} : normalize || null;
+    const updates = await reembedRows(client, state, { ...reembedOptions, ...batch }, normalizeOptions);
+
+    writes.push(...updates, manifestStatement(tableName, reembedOptions, true));
+    result.reembedded = updates.length;
+  }
+
+  await client.batch([...statements, ...writes], 'write');
+  forgetProjection(client, tableName);
+
+  return result;
+}
+
+/**
+ * Read the schema version recorded for `tableName`, or 0 if none is
+ */
+export async function getSchemaVersion(client: Client, tableName: string = 'articles'): Promise<number> {
+  const exists = await client.execute({
+    sql: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [`${tableName}_migrations`]
+  });
+
+  if (exists.rows.length === 0) {
+    return 0;
+  }
+
+  const result = await client.execute(`SELECT MAX(version) AS version FROM ${tableName}_migrations`);
+  return Number(result.rows[0]?.version ?? 0);
+}
+
+/**
+ * Record every step as applied, for tables `createTable` made current
+ */
+export async function recordSchemaVersion(client: Client, tableName: string): Promise<void> {
+  await client.batch(versionStatements(tableName, MIGRATIONS), 'write');
+}
+
+/**
+ * Read the tables, columns, indexes and vector storage that steps plan against
+ */
+async function readState(
+  client: Client,
+  tableName: string,
+  schema: ResolvedSchema,
+  dimensions: number | undefined,
+  embeddingOptions: EmbeddingOptions
+): Promise<TableState> {
+  const tables = new Map<string, Set<string>>();
+
+  for (const name of [tableName, `${tableName}_chunks`, `${tableName}_manifest`]) {
+    const info = await client.execute(`PRAGMA table_info(${name})`);
+    if (info.rows.length > 0) {
+      tables.set(name, new Set(info.rows.map(row => String(row.name).toLowerCase())));
+    }
+  }
+
+  const indexRows = await client.execute({
+    sql: `SELECT name, sql FROM sqlite_master WHERE type = 'index' AND tbl_name IN (?, ?) AND sql IS NOT NULL`,
+    args: [tableName, `${tableName}_chunks`]
+  });
+  const storage = await getVectorStorage(client, tableName, schema);
+
+  return {
+    tableName,
+    schema,
+    tables,
+    indexes: new Map(indexRows.rows.map(row => [row.name as string, row.sql as string])),
+    storage,
+    dimensions: storage?.dimensions ?? dimensions ?? resolveEmbedder(embeddingOptions).dimensions
+  };
+}
+
+/**
+ * ADD COLUMN statements for the mapped columns `table` lacks
+ */
+function addColumns(state: TableState, table: string, columns: Array<[SchemaField, string]>): string[] {
+  const existing = state.tables.get(table);
+
+  return columns.flatMap(([field, type]) => {
+    const column = state.schema.columns[field];
+    return column && !existing?.has(column.toLowerCase())
+      ? [`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`]
+      : [];
+  });
+}
+
+/**
+ * Re-create the embedding columns of the article and chunk tables at a new
+ * size. SQLite cannot change a column's type, so each is dropped and added
+ * back empty, with its vector index dropped first and re-created after.
+ */
+function resizeVectors(state: TableState, dimensions: number): string[] {
+  const { tableName, schema: { columns }, storage } = state;
+  const statements: string[] = [];
+  const targets = [
+    { table: tableName, embedding: columns.embedding!, full: columns.embedding_full },
+    { table: `${tableName}_chunks`, embedding: 'embedding', full: 'embedding_full' }
+  ];
+
+  for (const { table, embedding, full } of targets) {
+    const existing = state.tables.get(table);
+    if (!existing) {
+      continue;
+    }
+
+    const index = `${table}_embedding_idx`;
+    const vectors: Array<[string, string]> = [[embedding, vectorColumnType(storage!.type, dimensions)]];
+    if (full && existing.has(full.toLowerCase())) {
+      vectors.push([full, vectorColumnType('F32', dimensions)]);
+    }
+
+    statements.push(`DROP INDEX IF EXISTS ${index}`);
+    for (const [column, type] of vectors) {
+      statements.push(
+        `ALTER TABLE ${table} DROP COLUMN ${column}`,
+        `ALTER TABLE ${table} ADD COLUMN ${column} ${type}`
+      );
+    }
+    statements.push(state.indexes.get(index) ?? `CREATE INDEX ${index} ON ${table}(libsql_vector_idx(${embedding}))`);
+  }
+
+  if (columns.content_hash) {
+    statements.push(`UPDATE ${tableName} SET ${columns.content_hash} = NULL`);
+  }
+
+  return statements;
+}
+
+/**
+ * Create the version table and record `migrations` as applied
+ */
+function versionStatements(tableName: string, migrations: Migration[]): string[] {
+  if (migrations.length === 0) {
+    return [];
+  }
+
+  return [
+    `CREATE TABLE IF NOT EXISTS ${tableName}_migrations (
+  version INTEGER PRIMARY KEY,
+  description TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+)`,
+    ...migrations.map(({ version, description }) =>
+      `INSERT OR IGNORE INTO ${tableName}_migrations (version, description, applied_at) ` +
+      `VALUES (${version}, '${description.replace(/'/g, "''")}', datetime('now'))`)
+  ];
+}
+
+/**
+ * Embed the stored articles and chunks again, the way `indexContent` builds
+ * their embedding text, and return the statements storing the new vectors
+ */
+async function reembedRows(
+  client: Client,
+  state: TableState,
+  options: EmbeddingOptions & BatchOptions,
+  normalizeOptions: NormalizeOptions | null
+): Promise<InStatement[]> {
+  const { tableName, schema, storage } = state;
+  const { id, embedding } = schema.columns;
+  const toText = (markdown: string) => normalizeOptions ? normalizeMarkdown(markdown, normalizeOptions) : markdown;
+
+  // Columns that pending steps add do not exist yet, so read them as missing
+  const existing = state.tables.get(tableName)!;
+  const current: ResolvedSchema = {
+    ...schema,
+    columns: Object.fromEntries(Object.entries(schema.columns).map(([field, column]) =>
+      [field, column && existing.has(column.toLowerCase()) ? column : null])) as ResolvedSchema['columns']
+  };
+
+  const articles = await client.execute(`
+    SELECT ${id} AS id, ${schema.columns.title} AS title, ${schema.columns.content} AS content,
+      ${fieldSql(current, 'tags')} AS tags, ${fieldSql(current, 'description')} AS description
+    FROM ${tableName}
+  `);
+  const chunks = state.tables.has(`${tableName}_chunks`)
+    ? await client.execute(`
+        SELECT c.id, c.heading, c.content, a.${schema.columns.title} AS title
+        FROM ${tableName}_chunks c
+        JOIN ${tableName} a ON a.${id} = c.article_id
+      `)
+    : null;
+
+  const texts = [
+    ...articles.rows.map(row => prepareTextForEmbedding({
+      title: row.title as string,
+      description: (row.description as string | null) ?? undefined,
+      content: toText(row.content as string),
+      tags: JSON.parse(row.tags as string || '[]')
+    })),
+    ...(chunks?.rows ?? []).map(row =>
+      [row.title, row.heading, toText(row.content as string)].filter(Boolean).join('\n\n'))
+  ];
+  const embeddings = await generateEmbeddings(texts, { ...options, inputType: 'document' });
+
+  const convert = vectorFunction(storage!.type);
+  const update = (table: string, idColumn: string, embeddingColumn: string, fullColumn: string | null) => ({
+    sql: `UPDATE ${table} SET ${embeddingColumn} = ${convert}(?)` +
+      `${fullColumn ? `, ${fullColumn} = vector(?)` : ''} WHERE ${idColumn} = ?`,
+    full: Boolean(fullColumn)
+  });
+  const articleUpdate = update(tableName, id!, embedding!, storage!.rescore ? schema.columns.embedding_full : null);
+  const chunkUpdate = update(
+    `${tableName}_chunks`,
+    'id',
+    'embedding',
+    state.tables.get(`${tableName}_chunks`)?.has('embedding_full') ? 'embedding_full' : null
+  );
+
+  const targets = [
+    ...articles.rows.map(row => ({ ...articleUpdate, id: row.id })),
+    ...(chunks?.rows ?? []).map(row => ({ ...chunkUpdate, id: row.id }))
+  ];
+
+  return targets.map(({ sql, full, id: rowId }, i) => {
+    const vector = JSON.stringify(embeddings[i]);
+    return { sql, args: full ? [vector, vector, rowId] : [vector, rowId] };
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Markdown-to-plain-text normalization of the text sent for embedding
+ */
+
+export interface NormalizeOptions {
+  /**
+   * Fenced code blocks: `summarize` keeps the language and first
+   * `codeLines` lines, `strip` drops them and `keep` leaves the code.
+   * Default: 'summarize'
+   */
+  codeBlocks?: 'keep' | 'summarize' | 'strip';
+  /** Lines kept per code block when summarizing. Default: 3 */
+  codeLines?: number;
+  /** Extra steps run in order after the built-in ones */
+  transforms?: Array<(text: string) => string>;
+}
+
+/**
+ * Reduce markdown to the plain text worth embedding
+ *
+ * Code blocks are summarized (see `codeBlocks`), links and images keep their
+ * text, URLs, HTML tags and comments, shortcodes and admonition markers are
+ * removed, tables become comma-separated rows, inline markup is dropped and
+ * whitespace is collapsed. Paragraph breaks are kept.
+ */
+export function normalizeMarkdown(markdown: string, options: NormalizeOptions = {}): string {
+  const { codeBlocks = 'summarize', codeLines = 3, transforms = [] } = options;
+
+  if (!Number.isInteger(codeLines) || codeLines < 0) {
+    throw new Error(`codeLines must be a non-negative integer, got ${codeLines}`);
+  }
+
+  // Set code aside so the steps below leave it untouched
+  const code: string[] = [];
+  let text = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^[ \t]*(`{3,}|~{3,})[ \t]*([^\n`]*)\n([\s\S]*?)^[ \t]*\1[ \t]*$/gm, (_, fence, info, body) => {
+      code.push(formatCode(info.trim().split(/\s/)[0], body, codeBlocks, codeLines));
+      return `\u0000${code.length - 1}\u0000`;
+    });
+
+  text = stripMarkup(text);
+
+  text = text
+    .replace(/\u0000(\d+)\u0000/g, (_, index) => code[Number(index)])
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return transforms.reduce((result, transform) => transform(result), text);
+}
+
+/**
+ * Replacement text for a fenced code block
+ */
+function formatCode(
+  language: string,
+  body: string,
+  mode: 'keep' | 'summarize' | 'strip',
+  lines: number
+): string {
+  if (mode === 'strip') {
+    return '';
+  }
+  if (mode === 'keep') {
+    return body.trimEnd();
+  }
+
+  const kept = body.split('\n').map(line => line.trim()).filter(Boolean).slice(0, lines);
+  return [`${language ? `${language} code` : 'Code'}:`, ...kept].join('\n');
+}
+
+/**
+ * Remove markdown, HTML and site-generator syntax, keeping the readable text
+ */
+function stripMarkup(text: string): string {
+  return text
+    // HTML comments and Hugo/Liquid shortcodes
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\{\{[<%][\s\S]*?[%>]\}\}|\{%[\s\S]*?%\}/g, '')
+    // Admonitions: Docusaurus/VitePress `:::note Title`, MkDocs `!!! note "Title"`, GitHub `> [!NOTE]`
+    .replace(/^[ \t]*:::+[ \t]*[\w-]*(?:\[([^\]\n]*)\])?[ \t]*(.*)$/gm, '$1 $2')
+    .replace(/^[ \t]*(?:!!!|\?\?\?\+?)[ \t]*[\w-]+(?:[ \t]+"([^"\n]*)")?.*$/gm, '$1')
+    .replace(/^([ \t]*>[ \t]*)\[!\w+\][ \t]*$/gm, '$1')
+    // Images and links keep their text; reference definitions, autolinks and URLs go
+    .replace(/!\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/\[([^\]]+)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/^[ \t]*\[[^\]\n]+\]:[ \t]*\S+.*$/gm, '')
+    .replace(/<(?:https?|mailto):[^>\s]+>/g, '')
+    .replace(/\bhttps?:\/\/[^\s)>\]]+/g, '')
+    // HTML tags
+    .replace(/<\/?[a-zA-Z][^>]*>/g, ' ')
+    // Tables: drop separator rows, join cells
+    .replace(/^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(?:\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$\n?/gm, '')
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, row: string) =>
+      row.split('|').map(cell => cell.trim()).filter(Boolean).join(', '))
+    // Block markers: headings, quotes, lists and rules
+    .replace(/^[ \t]*#{1,6}[ \t]+(.*?)[ \t#]*$/gm, '$1')
+    .replace(/^[ \t]*(?:>[ \t]?)+/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/^[ \t]*(?:\*{3,}|-{3,}|_{3,})[ \t]*$/gm, '')
+    // Inline markup
+    .replace(/`+([^`\n]+)`+/g, '$1')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?!\s)([^*\n]+?)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|[^\w])_(?!\s)([^_\n]+?)_(?!\w)/g, '$1$2');
+}
@@ -0,0 +1,369 @@
+/**
+ * PCA projection for reducing embeddings of models that are not
+ * Matryoshka-trained
+ */
+
+import { createHash } from 'crypto';
+
+export interface PcaProjection {
+  /** Corpus mean, subtracted before projecting */
+  mean: number[];
+  /** Principal components, strongest first, one row per output dimension */
+  components: number[][];
+  /** Hash of the mean and components, set by `fitPca` so caches need not hash them */
+  id?: string;
+}
+
+/**
+ * Fit a projection onto the top `dimensions` principal components of `vectors`
+ *
+ * Eigenvectors of the covariance matrix are found with Householder
+ * tridiagonalization and implicit QL iterations, which are exact and
+ * deterministic for the few hundred dimensions of typical embeddings.
+ */
+export function fitPca(vectors: number[][], dimensions: number): PcaProjection {
+  if (vectors.length < 2) {
+    throw new Error('PCA needs at least 2 vectors to fit');
+  }
+
+  const size = vectors[0].length;
+  if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > size) {
+    throw new Error(`PCA dimensions must be an integer between 1 and ${size}, got ${dimensions}`);
+  }
+  if (vectors.some(vector => vector.length !== size)) {
+    throw new Error('PCA vectors must all have the same length');
+  }
+
+  const mean = new Float64Array(size);
+  for (const vector of vectors) {
+    for (let i = 0; i < size; i++) {
+      mean[i] += vector[i] / vectors.length;
+    }
+  }
+
+  const covariance = covarianceMatrix(vectors, mean);
+  const components = principalComponents(covariance, size, dimensions);
+
+  const projection = {
+    mean: Array.from(mean),
+    components: components.map(component => Array.from(component))
+  };
+
+  return { ...projection, id: createHash('sha256').update(JSON.stringify(projection)).digest('hex') };
+}
+
+/**
+ * Project a vector with a fitted projection and L2-normalize the result
+ */
+export function projectPca(projection: PcaProjection, vector: number[]): number[] {
+  const { mean, components } = projection;
+
+  if (vector.length !== mean.length) {
+    throw new Error(
+      `PCA projection expects ${mean.length}-dimension vectors, got ${vector.length}`
+    );
+  }
+
+  const projected = components.map(component => {
+    let sum = 0;
+    for (let i = 0; i < mean.length; i++) {
+      sum += component[i] * (vector[i] - mean[i]);
+    }
+    return sum;
+  });
+
+  return normalizeVector(projected);
+}
+
+/**
+ * Scale a vector to unit length, leaving zero vectors unchanged
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Sample covariance of `vectors` as a row-major size x size matrix
+ */
+function covarianceMatrix(vectors: number[][], mean: Float64Array): Float64Array {
+  const size = mean.length;
+  const covariance = new Float64Array(size * size);
+  const centered = new Float64Array(size);
+
+  for (const vector of vectors) {
+    for (let i = 0; i < size; i++) {
+      centered[i] = vector[i] - mean[i];
+    }
+
+    for (let i = 0; i < size; i++) {
+      const value = centered[i];
+      if (value === 0) {
+        continue;
+      }
+
+      const row = i * size;
+      for (let j = i; j < size; j++) {
+        covariance[row + j] += value * centered[j];
+      }
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const value = covariance[i * size + j] / (vectors.length - 1);
+      covariance[i * size + j] = value;
+      covariance[j * size + i] = value;
+    }
+  }
+
+  return covariance;
+}
+
+/**
+ * Top `count` eigenvectors of a symmetric matrix, strongest first
+ */
+function principalComponents(
+  matrix: Float64Array,
+  size: number,
+  count: number
+): Float64Array[] {
+  const rows = Array.from({ length: size }, (_, i) => matrix.slice(i * size, (i + 1) * size));
+  const values = new Float64Array(size);
+  const offDiagonal = new Float64Array(size);
+
+  tridiagonalize(rows, values, offDiagonal);
+  diagonalize(rows, values, offDiagonal);
+
+  // Eigenvalues come back ascending, with eigenvectors in the columns
+  const components: Float64Array[] = [];
+  for (let column = size - 1; column >= size - count; column--) {
+    const component = Float64Array.from(rows, row => row[column]);
+
+    // Fix the sign so the largest entry is positive
+    let largest = 0;
+    for (const value of component) {
+      if (Math.abs(value) > Math.abs(largest)) {
+        largest = value;
+      }
+    }
+    if (largest < 0) {
+      component.forEach((value, i) => { component[i] = -value; });
+    }
+
+    components.push(component);
+  }
+
+  return components;
+}
+
+/**
+ * Householder reduction of a symmetric matrix to tridiagonal form, in place.
+ * Port of tred2 from EISPACK (via JAMA).
+ */
+function tridiagonalize(v: Float64Array[], d: Float64Array, e: Float64Array): void {
+  const n = d.length;
+
+  for (let j = 0; j < n; j++) {
+    d[j] = v[n - 1][j];
+  }
+
+  for (let i = n - 1; i > 0; i--) {
+    let scale = 0;
+    let h = 0;
+    for (let k = 0; k < i; k++) {
+      scale += Math.abs(d[k]);
+    }
+
+    if (scale === 0) {
+      e[i] = d[i - 1];
+      for (let j = 0; j < i; j++) {
+        d[j] = v[i - 1][j];
+        v[i][j] = 0;
+        v[j][i] = 0;
+      }
+    } else {
+      for (let k = 0; k < i; k++) {
+        d[k] /= scale;
+        h += d[k] * d[k];
+      }
+
+      let f = d[i - 1];
+      let g = Math.sqrt(h);
+      if (f > 0) {
+        g = -g;
+      }
+      e[i] = scale * g;
+      h -= f * g;
+      d[i - 1] = f - g;
+      for (let j = 0; j < i; j++) {
+        e[j] = 0;
+      }
+
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        v[j][i] = f;
+        g = e[j] + v[j][j] * f;
+        for (let k = j + 1; k <= i - 1; k++) {
+          g += v[k][j] * d[k];
+          e[k] += v[k][j] * f;
+        }
+        e[j] = g;
+      }
+
+      f = 0;
+      for (let j = 0; j < i; j++) {
+        e[j] /= h;
+        f += e[j] * d[j];
+      }
+      const hh = f / (h + h);
+      for (let j = 0; j < i; j++) {
+        e[j] -= hh * d[j];
+      }
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        g = e[j];
+        for (let k = j; k <= i - 1; k++) {
+          v[k][j] -= f * e[k] + g * d[k];
+        }
+        d[j] = v[i - 1][j];
+        v[i][j] = 0;
+      }
+    }
+    d[i] = h;
+  }
+
+  // Accumulate transformations
+  for (let i = 0; i < n - 1; i++) {
+    v[n - 1][i] = v[i][i];
+    v[i][i] = 1;
+    const h = d[i + 1];
+    if (h !== 0) {
+      for (let k = 0; k <= i; k++) {
+        d[k] = v[k][i + 1] / h;
+      }
+      for (let j = 0; j <= i; j++) {
+        let g = 0;
+        for (let k = 0; k <= i; k++) {
+          g += v[k][i + 1] * v[k][j];
+        }
+        for (let k = 0; k <= i; k++) {
+          v[k][j] -= g * d[k];
+        }
+      }
+    }
+    for (let k = 0; k <= i; k++) {
+      v[k][i + 1] = 0;
+    }
+  }
+
+  for (let j = 0; j < n; j++) {
+    d[j] = v[n - 1][j];
+    v[n - 1][j] = 0;
+  }
+  v[n - 1][n - 1] = 1;
+  e[0] = 0;
+}
+
+/**
+ * Implicit QL iterations on a tridiagonal matrix, leaving eigenvalues in `d`
+ * (ascending) and eigenvectors in the columns of `v`.
+ * Port of tql2 from EISPACK (via JAMA).
+ */
+function diagonalize(v: Float64Array[], d: Float64Array, e: Float64Array): void {
+  const n = d.length;
+
+  for (let i = 1; i < n; i++) {
+    e[i - 1] = e[i];
+  }
+  e[n - 1] = 0;
+
+  let f = 0;
+  let tst1 = 0;
+  const eps = Math.pow(2, -52);
+
+  for (let l = 0; l < n; l++) {
+    // Find small subdiagonal element
+    tst1 = Math.max(tst1, Math.abs(d[l]) + Math.abs(e[l]));
+    let m = l;
+    while (m < n) {
+      if (Math.abs(e[m]) <= eps * tst1) {
+        break;
+      }
+      m++;
+    }
+
+    // If m === l, d[l] is already an eigenvalue; otherwise iterate
+    if (m > l) {
+      do {
+        let g = d[l];
+        let p = (d[l + 1] - g) / (2 * e[l]);
+        let r = Math.hypot(p, 1);
+        if (p < 0) {
+          r = -r;
+        }
+        d[l] = e[l] / (p + r);
+        d[l + 1] = e[l] * (p + r);
+        const dl1 = d[l + 1];
+        let h = g - d[l];
+        for (let i = l + 2; i < n; i++) {
+          d[i] -= h;
+        }
+        f += h;
+
+        p = d[m];
+        let c = 1;
+        let c2 = c;
+        let c3 = c;
+        const el1 = e[l + 1];
+        let s = 0;
+        let s2 = 0;
+        for (let i = m - 1; i >= l; i--) {
+          c3 = c2;
+          c2 = c;
+          s2 = s;
+          g = c * e[i];
+          h = c * p;
+          r = Math.hypot(p, e[i]);
+          e[i + 1] = s * r;
+          s = e[i] / r;
+          c = p / r;
+          p = c * d[i] - s * g;
+          d[i + 1] = h + s * (c * g + s * d[i]);
+
+          for (let k = 0; k < n; k++) {
+            h = v[k][i + 1];
+            v[k][i + 1] = s * v[k][i] + c * h;
+            v[k][i] = c * v[k][i] - s * h;
+          }
+        }
+        p = -s * s2 * c3 * el1 * e[l] / dl1;
+        e[l] = s * p;
+        d[l] = c * p;
+      } while (Math.abs(e[l]) > eps * tst1);
+    }
+    d[l] += f;
+    e[l] = 0;
+  }
+
+  // Sort eigenvalues and corresponding vectors ascending
+  for (let i = 0; i < n - 1; i++) {
+    let k = i;
+    let p = d[i];
+    for (let j = i + 1; j < n; j++) {
+      if (d[j] < p) {
+        k = j;
+        p = d[j];
+      }
+    }
+    if (k !== i) {
+      d[k] = d[i];
+      d[i] = p;
+      for (let j = 0; j < n; j++) {
+        const swap = v[j][i];
+        v[j][i] = v[j][k];
+        v[j][k] = swap;
+      }
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Retry, rate limiting and concurrency helpers for embedding API calls
+ */
+
+export interface RetryOptions {
+  maxRetries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * Error from an embedding API, carrying the HTTP status and any
+ * server-requested delay so callers can decide whether to retry
+ */
+export class EmbeddingApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = 'EmbeddingApiError';
+  }
+}
+
+/**
+ * Run `fn`, retrying rate-limit (429) and server (5xx) errors with exponential
+ * backoff and full jitter. A `retryAfter` on the error takes precedence, up to
+ * `maxRetryDelay`.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { maxRetries = 5, retryDelay = 1000, maxRetryDelay = 60000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxRetryDelay, retryDelay * 2 ** attempt);
+      const retryAfter = error instanceof EmbeddingApiError ? error.retryAfter : null;
+
+      await sleep(retryAfter !== null ? Math.min(maxRetryDelay, retryAfter) : Math.random() * backoff);
+    }
+  }
+}
+
+/**
+ * Check whether an error is worth retrying
+ */
+export function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Create a limiter that spaces calls to at most `requestsPerMinute`
+ */
+export function createRateLimiter(requestsPerMinute: number): RateLimiter {
+  const interval = 60000 / requestsPerMinute;
+  let next = 0;
+
+  return {
+    async acquire() {
+      const now = Date.now();
+      const wait = Math.max(0, next - now);
+      next = Math.max(now, next) + interval;
+
+      if (wait > 0) {
+        await sleep(wait);
+      }
+    }
+  };
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight, preserving order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
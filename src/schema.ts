@@ -0,0 +1,351 @@
+/**
+ * Table schema: which columns of the article table hold each field, so the
+ * library can work with existing tables
+ */
+
+import type { Client } from '@libsql/client';
+
+/**
+ * Fields the library reads and writes, named after their default columns
+ */
+export type SchemaField =
+  | 'id'
+  | 'slug'
+  | 'title'
+  | 'content'
+  | 'folder'
+  | 'tags'
+  | 'embedding'
+  | 'embedding_full'
+  | 'content_hash'
+  | 'metadata'
+  | 'description'
+  | 'published_at'
+  | 'created_at'
+  | 'updated_at';
+
+export interface ExtraColumn {
+  /** Column type used by createTable (default 'TEXT') */
+  type?: string;
+  /** Frontmatter field stored in the column (default: the column name) */
+  field?: string;
+}
+
+/**
+ * Column mapping shared by createTable, indexContent, search and the getters
+ *
+ * Fields keep their default column names unless mapped. Optional fields can
+ * be mapped to null when the table has no such column: `folder`, `tags` and
+ * `metadata` then read as 'root', [] and {}, the others as null, and
+ * filtering on them throws.
+ */
+export interface TableSchema {
+  columns?: Partial<Record<SchemaField, string | null>>;
+  /** Columns filled from frontmatter and returned in `extra`, by column name */
+  extraColumns?: Record<string, ExtraColumn>;
+}
+
+export interface ResolvedSchema {
+  columns: Record<SchemaField, string | null>;
+  extraColumns: Array<{ column: string; type: string; field: string }>;
+  /** Mapped fields whose column the table lacks, read as stand-ins */
+  missing?: SchemaField[];
+}
+
+/**
+ * A table that does not match its schema
+ */
+export class SchemaError extends Error {
+  constructor(
+    public readonly tableName: string,
+    public readonly issues: string[]
+  ) {
+    super(`Table ${tableName} does not match its schema:\n- ${issues.join('\n- ')}`);
+    this.name = 'SchemaError';
+  }
+}
+
+const FIELDS: SchemaField[] = [
+  'id', 'slug', 'title', 'content', 'folder', 'tags', 'embedding', 'embedding_full',
+  'content_hash', 'metadata', 'description', 'published_at', 'created_at', 'updated_at'
+];
+
+const REQUIRED_FIELDS: SchemaField[] = ['id', 'slug', 'title', 'content', 'embedding'];
+
+/** Values read for optional fields the table lacks */
+const MISSING_VALUES: Partial<Record<SchemaField, string>> = {
+  folder: "'root'",
+  tags: "'[]'",
+  metadata: "'{}'"
+};
+
+/** Type affinity each field needs; text fields also accept untyped columns */
+const FIELD_AFFINITIES: Partial<Record<SchemaField, string[]>> = {
+  id: ['INTEGER'],
+  slug: ['TEXT', 'BLOB'],
+  title: ['TEXT', 'BLOB'],
+  content: ['TEXT', 'BLOB'],
+  folder: ['TEXT', 'BLOB'],
+  tags: ['TEXT', 'BLOB'],
+  content_hash: ['TEXT', 'BLOB'],
+  metadata: ['TEXT', 'BLOB'],
+  description: ['TEXT', 'BLOB'],
+  published_at: ['TEXT', 'BLOB', 'NUMERIC'],
+  created_at: ['TEXT', 'BLOB', 'NUMERIC'],
+  updated_at: ['TEXT', 'BLOB', 'NUMERIC']
+};
+
+/**
+ * Fill in default column names and check the mapping itself
+ */
+export function resolveSchema(schema: TableSchema = {}): ResolvedSchema {
+  const columns = {} as Record<SchemaField, string | null>;
+
+  for (const [field, column] of Object.entries(schema.columns ?? {})) {
+    if (!FIELDS.includes(field as SchemaField)) {
+      throw new Error(`Unknown schema field: ${field}. Use ${FIELDS.join(', ')}.`);
+    }
+    if (column === null && REQUIRED_FIELDS.includes(field as SchemaField)) {
+      throw new Error(`The ${field} field needs a column`);
+    }
+    if (column !== null && column !== undefined) {
+      assertColumnName(column);
+    }
+  }
+
+  for (const field of FIELDS) {
+    const column = schema.columns?.[field];
+    columns[field] = column === undefined ? field : column;
+  }
+
+  const mapped = new Set<string>();
+  for (const field of FIELDS) {
+    const column = columns[field];
+    if (column && mapped.has(column)) {
+      throw new Error(`Column ${column} is mapped to more than one field`);
+    }
+    if (column) {
+      mapped.add(column);
+    }
+  }
+
+  const extraColumns = Object.entries(schema.extraColumns ?? {}).map(([column, options]) => {
+    assertColumnName(column);
+    if (mapped.has(column)) {
+      throw new Error(`Extra column ${column} is already mapped to a field`);
+    }
+    return { column, type: options.type ?? 'TEXT', field: options.field ?? column };
+  });
+
+  return { columns, extraColumns };
+}
+
+/**
+ * Resolve `schema` against an existing table. Optional fields whose column
+ * the table lacks, e.g. on tables created before a release added them, are
+ * read as stand-ins until `migrate` adds the column. Missing required columns
+ * are left for the query to report.
+ */
+export async function resolveTableSchema(
+  client: Client,
+  tableName: string,
+  schema: TableSchema = {}
+): Promise<ResolvedSchema> {
+  const resolved = resolveSchema(schema);
+  const info = await client.execute(`PRAGMA table_info(${tableName})`);
+
+  if (info.rows.length === 0) {
+    return resolved;
+  }
+
+  const declared = new Set(info.rows.map(row => String(row.name).toLowerCase()));
+  const missing = FIELDS.filter(field => {
+    const column = resolved.columns[field];
+    return column && !REQUIRED_FIELDS.includes(field) && !declared.has(column.toLowerCase());
+  });
+
+  if (missing.length === 0) {
+    return resolved;
+  }
+
+  const columns = { ...resolved.columns };
+  for (const field of missing) {
+    columns[field] = null;
+  }
+  return { ...resolved, columns, missing };
+}
+
+/**
+ * Select `fields` of the article table `alias`, named after the fields, with
+ * stand-ins for columns the table lacks and extra columns as `extra_<n>`
+ */
+export function selectFields(schema: ResolvedSchema, alias: string, fields: SchemaField[]): string {
+  return [
+    ...fields.map(field => `${fieldSql(schema, field, alias)} AS ${field}`),
+    ...schema.extraColumns.map(({ column }, i) => `${alias}.${column} AS extra_${i}`)
+  ].join(',\n          ');
+}
+
+/**
+ * SQL reading `field`: its column, or a stand-in when the table has none
+ */
+export function fieldSql(schema: ResolvedSchema, field: SchemaField, alias?: string): string {
+  const column = schema.columns[field];
+  if (!column) {
+    return MISSING_VALUES[field] ?? 'NULL';
+  }
+  return alias ? `${alias}.${column}` : column;
+}
+
+/**
+ * Read the extra columns selected by `selectFields`
+ */
+export function readExtra(
+  schema: ResolvedSchema,
+  row: Record<string, unknown>
+): { extra?: Record<string, unknown> } {
+  if (schema.extraColumns.length === 0) {
+    return {};
+  }
+  return { extra: Object.fromEntries(schema.extraColumns.map(({ column }, i) => [column, row[`extra_${i}`]])) };
+}
+
+/**
+ * Column holding `field`, throwing when the table has none
+ */
+export function requireColumn(schema: ResolvedSchema, field: SchemaField, purpose: string): string {
+  const column = schema.columns[field];
+  if (!column && schema.missing?.includes(field)) {
+    throw new Error(`${purpose} requires a ${field} column, which the table lacks. Add it with migrate().`);
+  }
+  if (!column) {
+    throw new Error(`${purpose} requires a ${field} column, but the schema maps it to null`);
+  }
+  return column;
+}
+
+/**
+ * Check that a table has every mapped column with a suitable type, a vector
+ * embedding column and a unique slug column. Returns the problems found.
+ */
+export async function checkSchema(
+  client: Client,
+  tableName: string,
+  schema: TableSchema = {}
+): Promise<string[]> {
+  const resolved = resolveSchema(schema);
+  const info = await client.execute(`PRAGMA table_info(${tableName})`);
+
+  if (info.rows.length === 0) {
+    return [`Table ${tableName} does not exist`];
+  }
+
+  const declared = new Map(info.rows.map(row => [String(row.name).toLowerCase(), {
+    type: String(row.type ?? '').toUpperCase(),
+    primaryKey: Number(row.pk) > 0
+  }]));
+  const issues: string[] = [];
+
+  for (const field of FIELDS) {
+    const column = resolved.columns[field];
+    if (!column) {
+      continue;
+    }
+
+    const found = declared.get(column.toLowerCase());
+    if (!found) {
+      if (field !== 'embedding_full') {
+        issues.push(`Column ${column} (${field}) is missing`);
+      }
+      continue;
+    }
+
+    if (field === 'embedding' || field === 'embedding_full') {
+      const pattern = field === 'embedding' ? /^(F32|F16|F8|F1BIT)_BLOB\(\d+\)$/ : /^F32_BLOB\(\d+\)$/;
+      if (!pattern.test(found.type)) {
+        issues.push(
+          `Column ${column} (${field}) must be a vector column such as F32_BLOB(768), not ${found.type || 'untyped'}`
+        );
+      }
+      continue;
+    }
+
+    const affinity = columnAffinity(found.type);
+    if (!FIELD_AFFINITIES[field]!.includes(affinity)) {
+      issues.push(`Column ${column} (${field}) has type ${found.type}, expected ${FIELD_AFFINITIES[field]![0]}`);
+    }
+    if (field === 'id' && !found.primaryKey) {
+      issues.push(`Column ${column} (id) must be the INTEGER PRIMARY KEY`);
+    }
+  }
+
+  const slug = resolved.columns.slug!;
+  if (declared.has(slug.toLowerCase()) && !await isUnique(client, tableName, slug)) {
+    issues.push(`Column ${slug} (slug) needs a UNIQUE constraint or index`);
+  }
+
+  for (const { column } of resolved.extraColumns) {
+    if (!declared.has(column.toLowerCase())) {
+      issues.push(`Extra column ${column} is missing`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a SchemaError listing every problem `checkSchema` finds
+ */
+export async function validateSchema(
+  client: Client,
+  tableName: string,
+  schema: TableSchema = {}
+): Promise<void> {
+  const issues = await checkSchema(client, tableName, schema);
+  if (issues.length > 0) {
+    throw new SchemaError(tableName, issues);
+  }
+}
+
+/**
+ * Whether a single-column unique index or constraint covers `column`
+ */
+async function isUnique(client: Client, tableName: string, column: string): Promise<boolean> {
+  const indexes = await client.execute(`PRAGMA index_list(${tableName})`);
+
+  for (const index of indexes.rows) {
+    if (Number(index.unique) !== 1) {
+      continue;
+    }
+    const columns = await client.execute(`PRAGMA index_info(${String(index.name)})`);
+    if (columns.rows.length === 1 && String(columns.rows[0].name).toLowerCase() === column.toLowerCase()) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * SQLite's type affinity for a declared column type
+ */
+function columnAffinity(type: string): string {
+  if (type.includes('INT')) {
+    return 'INTEGER';
+  }
+  if (/CHAR|CLOB|TEXT/.test(type)) {
+    return 'TEXT';
+  }
+  if (type === '' || type.includes('BLOB')) {
+    return 'BLOB';
+  }
+  if (/REAL|FLOA|DOUB/.test(type)) {
+    return 'REAL';
+  }
+  return 'NUMERIC';
+}
+
+function assertColumnName(column: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(column)) {
+    throw new Error(`Invalid column name: ${column}`);
+  }
+}
@@ -1,75 +1,797 @@
 /**
- * Vector search functionality
+ * Vector and hybrid search functionality
  */
 
-import type { Client } from '@libsql/client';
-import { generateEmbedding, type EmbeddingOptions } from './embeddings.js';
+import type { Client, InValue, Row } from '@libsql/client';
+import { generateEmbedding, resolveEmbedder, type EmbeddingOptions } from './embeddings.js';
+import { compileFilter, type CompiledFilter, type SearchFilter } from './filter.js';
+import { assertManifestMatches, getIndexManifest, getManifestProjection } from './manifest.js';
+import { getVectorStorage, vectorFunction } from './vectors.js';
+import { createSnippet, type SnippetOptions } from './snippet.js';
+import { queryCacheKey, type EmbeddingCache } from './cache.js';
+import {
+  readExtra,
+  requireColumn,
+  resolveTableSchema,
+  selectFields,
+  type ResolvedSchema,
+  type SchemaField,
+  type TableSchema
+} from './schema.js';
 
 export interface SearchOptions {
   client: Client;
   query: string;
   limit?: number;
   tableName?: string;
+  /** Column mapping of the table (see TableSchema) */
+  schema?: TableSchema;
   embeddingOptions?: EmbeddingOptions;
+  chunks?: boolean;
+  exact?: boolean;
+  filter?: SearchFilter;
+  mode?: SearchMode;
+  hybrid?: HybridOptions;
+  validateManifest?: boolean;
+  rescore?: boolean | RescoreOptions;
+  snippet?: boolean | SnippetOptions;
+  includeContent?: boolean;
+  /** Drop results scoring below this (0–1) */
+  minScore?: number;
+  /** Drop results farther than this cosine distance */
+  maxDistance?: number;
+  /** Number of results to skip */
+  offset?: number;
+  /** `nextCursor` from a previous `searchPage` with the same options */
+  cursor?: string;
+  /** Reuse query embeddings across searches */
+  queryCache?: EmbeddingCache;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  /** Pass as `cursor` to get the next page; null after the last page */
+  nextCursor: string | null;
+}
+
+export type SearchMode = 'vector' | 'hybrid';
+
+export interface SimilarOptions {
+  limit?: number;
+  tableName?: string;
+  schema?: TableSchema;
+  exact?: boolean;
+  filter?: SearchFilter;
+  rescore?: boolean | RescoreOptions;
+  includeContent?: boolean;
+  minScore?: number;
+  maxDistance?: number;
+}
+
+export interface HybridOptions {
+  vectorWeight?: number;
+  keywordWeight?: number;
+  rrfK?: number;
+  candidates?: number;
+}
+
+export interface RescoreOptions {
+  /** Rows shortlisted with compressed vectors before reranking */
+  candidates?: number;
+}
+
+export interface SearchChunk {
+  index: number;
+  content: string;
+  heading: string | null;
+  anchor: string | null;
+  start: number;
+  end: number;
 }
 
 export interface SearchResult {
   id: number;
   slug: string;
   title: string;
-  content: string;
+  /** Full markdown, omitted with `includeContent: false` */
+  content?: string;
   folder: string;
   tags: string[];
   distance: number;
+  /**
+   * Relevance from 0 to 1, higher is better: cosine similarity for vector
+   * search, or the fused rank score relative to the best possible in hybrid
+   */
+  score: number;
+  metadata: Record<string, any>;
+  description: string | null;
+  published_at: string | null;
   created_at: string;
+  /** Values of the schema's extra columns, when it declares any */
+  extra?: Record<string, unknown>;
+  chunk?: SearchChunk;
+  snippet?: string;
+  vectorScore?: number;
+  keywordScore?: number;
+  bm25?: number | null;
 }
 
 /**
  * Perform semantic search using vector similarity
+ *
+ * With `chunks: true` the query is matched against the passages in
+ * `${tableName}_chunks` and each article is returned once, with its best chunk.
+ *
+ * With `mode: 'hybrid'` the vector ranking is fused with BM25 ranking from
+ * `${tableName}_fts` using reciprocal rank fusion.
+ *
+ * Unless `exact: true` is set, candidates come from the `libsql_vector_idx`
+ * ANN index via `vector_top_k`, falling back to a full scan when it is missing.
+ * A `filter` always uses the full scan, so `limit` counts filtered rows.
+ *
+ * `minScore` and `maxDistance` drop weak matches, so fewer than `limit`
+ * results may be returned. `offset` skips results for pagination; see
+ * `searchPage` for cursors that also skip re-embedding the query.
+ *
+ * Tables created with a compressed `vectorType` are queried with the matching
+ * vector conversion. When they also keep float32 copies (`rescore: true` in
+ * createTable), the ANN index shortlists `candidates` rows with compressed
+ * vectors and they are reranked by full-precision distance, while exact
+ * scans rank by the float32 copies directly. Pass `rescore: false` to rank by
+ * the compressed vectors alone.
+ *
+ * With `snippet`, each result gets a short excerpt of its best chunk (or of
+ * its content) around the query terms, with the terms highlighted.
+ * `includeContent: false` leaves the full `content` out of results and, unless
+ * a snippet needs it, out of the query.
+ *
+ * Throws an EmbeddingMismatchError when `embeddingOptions` select a different
+ * model than the one recorded in the table's manifest.
  */
 export async function search(options: SearchOptions): Promise<SearchResult[]> {
+  const { results } = await runSearch(options);
+  return results;
+}
+
+/**
+ * Search like `search`, also returning a cursor for the next page
+ *
+ * The cursor carries the query embedding and position, so passing it back as
+ * `cursor` (with the same options) continues after the last result without
+ * embedding the query again.
+ */
+export async function searchPage(options: SearchOptions): Promise<SearchPage> {
+  const { query, limit = 10 } = options;
+  const { results, embedding, offset } = await runSearch(options);
+
+  return {
+    results,
+    nextCursor: results.length > 0 && results.length === limit
+      ? encodeCursor({ query, offset: offset + limit, embedding })
+      : null
+  };
+}
+
+/**
+ * Run a search, returning the query embedding and offset used
+ */
+async function runSearch(
+  options: SearchOptions
+): Promise<{ results: SearchResult[]; embedding: number[]; offset: number }> {
   const {
     client,
     query,
     limit = 10,
     tableName = 'articles',
-    embeddingOptions = {}
+    schema,
+    embeddingOptions = {},
+    chunks = false,
+    exact = false,
+    filter,
+    mode = 'vector',
+    hybrid = {},
+    validateManifest = true,
+    rescore = true,
+    snippet = false,
+    includeContent = true,
+    minScore,
+    maxDistance,
+    cursor,
+    queryCache
   } = options;
 
-  // Generate embedding for query
-  const queryEmbedding = await generateEmbedding(query, embeddingOptions);
+  const page = cursor ? decodeCursor(cursor, query) : null;
+  const offset = page?.offset ?? options.offset ?? 0;
 
-  // Perform vector search
-  const results = await client.execute({
-    sql: `
-      SELECT
-        id,
-        slug,
-        title,
-        content,
-        folder,
-        tags,
-        created_at,
-        vector_distance_cos(embedding, vector(?)) as distance
-      FROM ${tableName}
-      WHERE embedding IS NOT NULL
-      ORDER BY distance
-      LIMIT ?
-    `,
-    args: [JSON.stringify(queryEmbedding), limit]
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('offset must be a non-negative integer');
+  }
+
+  let queryEmbedding: number[];
+
+  if (page) {
+    queryEmbedding = page.embedding;
+  } else {
+    // PCA-reduced tables project queries with the projection fitted at indexing
+    const needsProjection = embeddingOptions.reduction === 'pca' && !embeddingOptions.projection;
+    let queryOptions = embeddingOptions;
+
+    if (validateManifest || needsProjection) {
+      const manifest = await getIndexManifest(client, tableName, { projection: false });
+
+      if (manifest && validateManifest) {
+        assertManifestMatches(manifest, tableName, embeddingOptions, resolveEmbedder(embeddingOptions));
+      }
+
+      // The parsed projection is cached until the table is indexed again
+      const projection = manifest && needsProjection
+        ? await getManifestProjection(client, tableName, manifest)
+        : null;
+      if (projection) {
+        queryOptions = { ...embeddingOptions, projection };
+      }
+    }
+
+    // Generate embedding for query, unless it is cached
+    const cacheKey = queryCache ? queryCacheKey(query, queryOptions) : null;
+    const cached = cacheKey ? await queryCache!.get(cacheKey) : null;
+
+    if (cached) {
+      queryEmbedding = cached;
+    } else {
+      queryEmbedding = await generateEmbedding(query, { ...queryOptions, inputType: 'query' });
+      if (cacheKey) {
+        await queryCache!.set(cacheKey, queryEmbedding);
+      }
+    }
+  }
+
+  const columns = await resolveTableSchema(client, tableName, schema);
+  const storage = await getVectorStorage(client, tableName, columns);
+  const compiled = compileFilter(filter, 'a', columns);
+  const rescoreOptions = storage?.rescore && rescore ? (rescore === true ? {} : rescore) : null;
+  const context: SearchContext = {
+    client,
+    tableName,
+    schema: columns,
+    vector: JSON.stringify(queryEmbedding),
+    convert: vectorFunction(storage?.type ?? 'F32'),
+    rescore: rescoreOptions,
+    bits: storage?.type === 'F1BIT' && !rescoreOptions ? storage.dimensions : null,
+    exact: exact || compiled.conditions.length > 0,
+    filter: compiled,
+    content: includeContent || snippet !== false,
+    cutoff: { minScore, maxDistance }
+  };
+
+  const results = mode === 'hybrid'
+    ? await searchHybrid(context, query, limit, offset, chunks, hybrid)
+    : chunks
+      ? await searchChunks(context, limit, offset)
+      : await searchArticles(context, limit, offset);
+
+  if (snippet === false && includeContent) {
+    return { results, embedding: queryEmbedding, offset };
+  }
+
+  return {
+    results: results.map(({ content, ...result }) => ({
+      ...result,
+      ...(includeContent && { content }),
+      ...(snippet !== false && {
+        snippet: createSnippet(
+          result.chunk?.content ?? content ?? '',
+          query,
+          snippet === true ? {} : snippet
+        )
+      })
+    })),
+    embedding: queryEmbedding,
+    offset
+  };
+}
+
+/**
+ * Encode the query, next offset and query embedding (as float32) as an
+ * opaque URL-safe cursor
+ */
+function encodeCursor(page: { query: string; offset: number; embedding: number[] }): string {
+  const vector = Buffer.from(new Float32Array(page.embedding).buffer).toString('base64');
+  return Buffer.from(JSON.stringify({ q: page.query, o: page.offset, v: vector })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from `searchPage`, checking it belongs to `query`
+ */
+function decodeCursor(cursor: string, query: string): { offset: number; embedding: number[] } {
+  let state: { q?: unknown; o?: unknown; v?: unknown };
+
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+
+  if (typeof state?.o !== 'number' || typeof state.v !== 'string') {
+    throw new Error('Invalid search cursor');
+  }
+  if (state.q !== query) {
+    throw new Error('Search cursor belongs to a different query');
+  }
+
+  const bytes = Buffer.from(state.v, 'base64');
+  const vector = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+
+  return { offset: state.o, embedding: Array.from(vector) };
+}
+
+/**
+ * Find the articles closest to an indexed article, for "related posts"
+ *
+ * The query is the article's stored embedding, so no embedding provider,
+ * API key or model is needed. The article itself is excluded. Returns an
+ * empty array when the slug is not indexed.
+ */
+export async function findSimilar(
+  client: Client,
+  slug: string,
+  options: SimilarOptions = {}
+): Promise<SearchResult[]> {
+  const {
+    limit = 5,
+    tableName = 'articles',
+    schema,
+    exact = false,
+    filter,
+    rescore = true,
+    includeContent = true,
+    minScore,
+    maxDistance
+  } = options;
+
+  const columns = await resolveTableSchema(client, tableName, schema);
+  const storage = await getVectorStorage(client, tableName, columns);
+  const rescoreOptions = storage?.rescore && rescore ? (rescore === true ? {} : rescore) : null;
+  const { slug: slugColumn, embedding, embedding_full: embeddingFull } = columns.columns;
+
+  // Prefer the float32 copy, which is also what candidates are reranked by
+  const stored = await client.execute({
+    sql: `SELECT vector_extract(${rescoreOptions ? embeddingFull : embedding}) AS embedding
+          FROM ${tableName}
+          WHERE ${slugColumn} = ? AND ${embedding} IS NOT NULL`,
+    args: [slug]
   });
 
-  // Parse and format results
-  return results.rows.map(row => ({
+  if (stored.rows.length === 0) {
+    return [];
+  }
+
+  const compiled = compileFilter(filter, 'a', columns);
+  const context: SearchContext = {
+    client,
+    tableName,
+    schema: columns,
+    vector: stored.rows[0].embedding as string,
+    convert: vectorFunction(storage?.type ?? 'F32'),
+    rescore: rescoreOptions,
+    bits: storage?.type === 'F1BIT' && !rescoreOptions ? storage.dimensions : null,
+    exact: exact || compiled.conditions.length > 0,
+    filter: compiled,
+    content: includeContent,
+    cutoff: { minScore, maxDistance }
+  };
+
+  // Fetch one extra row, since the article is its own closest match
+  const results = await searchArticles(context, limit + 1);
+
+  return results
+    .filter(result => result.slug !== slug)
+    .slice(0, limit);
+}
+
+/**
+ * State shared by the queries that make up one search
+ */
+interface SearchContext {
+  client: Client;
+  tableName: string;
+  schema: ResolvedSchema;
+  vector: string;
+  /** SQL function converting the query to the stored vector type */
+  convert: string;
+  /** Set when float32 copies are stored and used to rerank */
+  rescore: RescoreOptions | null;
+  /** Set to the dimensions when distances are Hamming distances (F1BIT) */
+  bits: number | null;
+  exact: boolean;
+  filter: CompiledFilter;
+  /** Whether to select article content */
+  content: boolean;
+  cutoff: { minScore?: number; maxDistance?: number };
+}
+
+/**
+ * Search article embeddings
+ */
+async function searchArticles(
+  context: SearchContext,
+  limit: number,
+  offset = 0
+): Promise<SearchResult[]> {
+  const { client, tableName, vector, filter } = context;
+
+  const results = await withIndexFallback(context.exact, exact => {
+    const source = vectorSource(context, tableName, 'a', shortlistSize(context, limit + offset), exact);
+
+    return client.execute({
+      sql: `
+        SELECT
+          ${articleColumns(context)},
+          ${distanceSql(context, 'a')} as distance
+        ${source.from}
+        ${whereClause([...source.conditions, ...filter.conditions])}
+        ORDER BY distance, ${articleColumn(context, 'id')}
+        LIMIT ? OFFSET ?
+      `,
+      args: [vector, ...source.args, ...filter.args, limit, offset]
+    });
+  });
+
+  return results.rows
+    .map(row => toSearchResult(row, context))
+    .filter(result => passesCutoff(context, result));
+}
+
+/**
+ * Search chunk embeddings, keeping the closest chunk of each article
+ */
+async function searchChunks(
+  context: SearchContext,
+  limit: number,
+  offset = 0
+): Promise<SearchResult[]> {
+  const { client, tableName, vector, filter } = context;
+  const chunksTable = `${tableName}_chunks`;
+
+  const results = await withIndexFallback(context.exact, exact => {
+    // Several neighbours may belong to the same article, so over-fetch
+    const source = vectorSource(context, chunksTable, 'c', shortlistSize(context, limit + offset) * 5, exact);
+
+    return client.execute({
+      sql: `
+        WITH ranked AS (
+          SELECT
+            c.article_id,
+            c.chunk_index,
+            c.heading,
+            c.anchor,
+            c.content,
+            c.start_offset,
+            c.end_offset,
+            ${distanceSql(context, 'c')} as distance
+          ${source.from}
+          JOIN ${tableName} a ON ${articleColumn(context, 'id')} = c.article_id
+          ${whereClause([...source.conditions, ...filter.conditions])}
+        ),
+        best AS (
+          SELECT
+            *,
+            ROW_NUMBER() OVER (PARTITION BY article_id ORDER BY distance) as rank
+          FROM ranked
+        )
+        SELECT
+          ${articleColumns(context)},
+          b.distance,
+          b.chunk_index,
+          b.heading,
+          b.anchor,
+          b.content as chunk_content,
+          b.start_offset,
+          b.end_offset
+        FROM best b
+        JOIN ${tableName} a ON ${articleColumn(context, 'id')} = b.article_id
+        WHERE b.rank = 1
+        ORDER BY b.distance, ${articleColumn(context, 'id')}
+        LIMIT ? OFFSET ?
+      `,
+      args: [vector, ...source.args, ...filter.args, limit, offset]
+    });
+  });
+
+  return results.rows
+    .map(row => ({
+      ...toSearchResult(row, context),
+      chunk: {
+        index: row.chunk_index as number,
+        content: row.chunk_content as string,
+        heading: row.heading as string | null,
+        anchor: row.anchor as string | null,
+        start: row.start_offset as number,
+        end: row.end_offset as number
+      }
+    }))
+    .filter(result => passesCutoff(context, result));
+}
+
+/**
+ * Search the full-text index, ranked by BM25
+ */
+async function searchKeywords(
+  context: SearchContext,
+  query: string,
+  limit: number
+): Promise<SearchResult[]> {
+  const { client, tableName, vector, filter } = context;
+  const ftsTable = `${tableName}_fts`;
+
+  const match = toMatchQuery(query);
+  if (!match) {
+    return [];
+  }
+
+  try {
+    const results = await client.execute({
+      sql: `
+        SELECT
+          ${articleColumns(context)},
+          ${distanceSql(context, 'a')} as distance,
+          bm25(${ftsTable}, 5.0, 1.0, 2.0) as bm25
+        FROM ${ftsTable}
+        JOIN ${tableName} a ON ${articleColumn(context, 'id')} = ${ftsTable}.rowid
+        ${whereClause([`${ftsTable} MATCH ?`, ...filter.conditions])}
+        ORDER BY bm25
+        LIMIT ?
+      `,
+      args: [vector, match, ...filter.args, limit]
+    });
+
+    return results.rows.map(row => ({
+      ...toSearchResult(row, context),
+      bm25: row.bm25 as number
+    }));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(`no such table: ${ftsTable}`)) {
+      throw new Error(
+        `Hybrid search requires the ${ftsTable} table. Call createTable with { fts: true } and re-index.`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fuse vector and keyword rankings with weighted reciprocal rank fusion.
+ * The fused score is divided by the score of a result ranked first by both,
+ * so it falls between 0 and 1.
+ */
+async function searchHybrid(
+  context: SearchContext,
+  query: string,
+  limit: number,
+  offset: number,
+  chunks: boolean,
+  hybrid: HybridOptions
+): Promise<SearchResult[]> {
+  const {
+    vectorWeight = 1,
+    keywordWeight = 1,
+    rrfK = 60,
+    candidates = Math.max((offset + limit) * 4, 20)
+  } = hybrid;
+
+  // Candidates are cut off after fusion, on the fused score
+  const candidateContext = { ...context, cutoff: {} };
+  const vectorResults = chunks
+    ? await searchChunks(candidateContext, candidates)
+    : await searchArticles(candidateContext, candidates);
+  const keywordResults = await searchKeywords(candidateContext, query, candidates);
+  const bestScore = (vectorWeight + keywordWeight) / (rrfK + 1);
+
+  const fused = new Map<number, SearchResult>();
+
+  vectorResults.forEach((result, rank) => {
+    const vectorScore = vectorWeight / (rrfK + rank + 1);
+    fused.set(result.id, {
+      ...result,
+      bm25: null,
+      vectorScore,
+      keywordScore: 0,
+      score: vectorScore
+    });
+  });
+
+  keywordResults.forEach((result, rank) => {
+    const keywordScore = keywordWeight / (rrfK + rank + 1);
+    const existing = fused.get(result.id);
+
+    if (existing) {
+      existing.bm25 = result.bm25;
+      existing.keywordScore = keywordScore;
+      existing.score = existing.vectorScore! + keywordScore;
+    } else {
+      fused.set(result.id, {
+        ...result,
+        vectorScore: 0,
+        keywordScore,
+        score: keywordScore
+      });
+    }
+  });
+
+  return [...fused.values()]
+    .map(result => ({ ...result, score: bestScore > 0 ? result.score / bestScore : 0 }))
+    .filter(result => passesCutoff(context, result))
+    .sort((a, b) => b.score - a.score || a.id - b.id)
+    .slice(offset, offset + limit);
+}
+
+/**
+ * Whether a result clears the `minScore` and `maxDistance` cutoffs
+ */
+function passesCutoff(context: SearchContext, result: SearchResult): boolean {
+  const { minScore, maxDistance } = context.cutoff;
+
+  return (minScore === undefined || result.score >= minScore) &&
+    (maxDistance === undefined || result.distance <= maxDistance);
+}
+
+/**
+ * Similarity from 0 to 1 for a cosine (or, for F1BIT, Hamming) distance
+ */
+function similarity(context: SearchContext, distance: number): number {
+  const value = context.bits ? 1 - distance / context.bits : 1 - distance;
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * The article fields of a result, with content when results include it
+ */
+function articleColumns(context: SearchContext): string {
+  return selectFields(context.schema, 'a', [
+    'id',
+    'slug',
+    'title',
+    ...(context.content ? ['content' as const] : []),
+    'folder',
+    'tags',
+    'metadata',
+    'description',
+    'published_at',
+    'created_at'
+  ]);
+}
+
+/**
+ * A column of the article table `a`, by field
+ */
+function articleColumn(context: SearchContext, field: SchemaField): string {
+  return `a.${requireColumn(context.schema, field, 'Search')}`;
+}
+
+/**
+ * An embedding column of `alias`: chunk tables (`c`) keep the default names
+ */
+function embeddingColumn(context: SearchContext, alias: string, full: boolean): string {
+  const field = full ? 'embedding_full' : 'embedding';
+  return alias === 'a' ? articleColumn(context, field) : `${alias}.${field}`;
+}
+
+/**
+ * Cosine distance to the query, from the float32 copies when rescoring
+ */
+function distanceSql(context: SearchContext, alias: string): string {
+  return context.rescore
+    ? `vector_distance_cos(${embeddingColumn(context, alias, true)}, vector(?))`
+    : `vector_distance_cos(${embeddingColumn(context, alias, false)}, ${context.convert}(?))`;
+}
+
+/**
+ * Number of ANN neighbours to fetch for `limit` results, widened when
+ * they are reranked
+ */
+function shortlistSize(context: SearchContext, limit: number): number {
+  if (!context.rescore) {
+    return limit;
+  }
+
+  return Math.max(limit, context.rescore.candidates ?? limit * 4);
+}
+
+/**
+ * Build the FROM clause for candidate rows of `table` aliased as `alias`:
+ * the ANN neighbours from `vector_top_k`, or every row with an embedding
+ */
+function vectorSource(
+  context: SearchContext,
+  table: string,
+  alias: string,
+  k: number,
+  exact: boolean
+): { from: string; conditions: string[]; args: InValue[] } {
+  if (exact) {
+    return {
+      from: `FROM ${table} ${alias}`,
+      conditions: [`${embeddingColumn(context, alias, false)} IS NOT NULL`],
+      args: []
+    };
+  }
+
+  return {
+    from: `FROM vector_top_k('${table}_embedding_idx', ${context.convert}(?), ?) v
+        JOIN ${table} ${alias} ON ${alias}.rowid = v.id`,
+    conditions: [],
+    args: [context.vector, k]
+  };
+}
+
+/**
+ * Run an approximate query, retrying as an exact scan when the vector index
+ * is missing (e.g. tables created without `libsql_vector_idx`)
+ */
+async function withIndexFallback<T>(
+  exact: boolean,
+  run: (exact: boolean) => Promise<T>
+): Promise<T> {
+  if (exact) {
+    return run(true);
+  }
+
+  try {
+    return await run(false);
+  } catch (error) {
+    if (error instanceof Error && /vector index/i.test(error.message)) {
+      return run(true);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Join conditions into a WHERE clause
+ */
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * Turn free text into an FTS5 query that matches any of its terms.
+ * Each term is quoted so punctuation in identifiers and error codes
+ * is treated as text rather than query syntax.
+ */
+function toMatchQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter(term => /[\p{L}\p{N}]/u.test(term))
+    .map(term => `"${term.replace(/"/g, '""')}"`)
+    .join(' OR ');
+}
+
+/**
+ * Map a result row to a SearchResult
+ */
+function toSearchResult(row: Row, context: SearchContext): SearchResult {
+  return {
     id: row.id as number,
     slug: row.slug as string,
     title: row.title as string,
-    content: row.content as string,
+    ...(row.content !== undefined && { content: row.content as string }),
     folder: row.folder as string,
     tags: JSON.parse(row.tags as string || '[]'),
     distance: row.distance as number,
-    created_at: row.created_at as string
-  }));
+    score: similarity(context, row.distance as number),
+    metadata: parseMetadata(row.metadata),
+    description: row.description as string | null,
+    published_at: row.published_at as string | null,
+    created_at: row.created_at as string,
+    ...readExtra(context.schema, row)
+  };
+}
+
+/**
+ * Parse the stored frontmatter JSON
+ */
+function parseMetadata(value: unknown): Record<string, any> {
+  return JSON.parse(value as string || '{}');
 }
 
 /**
@@ -77,20 +799,28 @@ export async function search(options: SearchOptions): Promise<SearchResult[]> {
  */
 export async function getAllArticles(
   client: Client,
-  tableName: string = 'articles'
+  tableName: string = 'articles',
+  schema: TableSchema = {}
 ): Promise<Array<{
   id: number;
   slug: string;
   title: string;
   folder: string;
   tags: string[];
+  metadata: Record<string, any>;
+  description: string | null;
+  published_at: string | null;
   created_at: string;
   updated_at: string;
+  extra?: Record<string, unknown>;
 }>> {
+  const columns = await resolveTableSchema(client, tableName, schema);
   const results = await client.execute(`
-    SELECT id, slug, title, folder, tags, created_at, updated_at
-    FROM ${tableName}
-    ORDER BY title
+    SELECT ${selectFields(columns, 'a', [
+      'id', 'slug', 'title', 'folder', 'tags', 'metadata', 'description', 'published_at', 'created_at', 'updated_at'
+    ])}
+    FROM ${tableName} a
+    ORDER BY a.${columns.columns.title}
   `);
 
   return results.rows.map(row => ({
@@ -99,8 +829,12 @@ export async function getAllArticles(
     title: row.title as string,
     folder: row.folder as string,
     tags: JSON.parse(row.tags as string || '[]'),
+    metadata: parseMetadata(row.metadata),
+    description: row.description as string | null,
+    published_at: row.published_at as string | null,
     created_at: row.created_at as string,
-    updated_at: row.updated_at as string
+    updated_at: row.updated_at as string,
+    ...readExtra(columns, row)
   }));
 }
 
@@ -110,7 +844,8 @@ export async function getAllArticles(
 export async function getArticleBySlug(
   client: Client,
   slug: string,
-  tableName: string = 'articles'
+  tableName: string = 'articles',
+  schema: TableSchema = {}
 ): Promise<{
   id: number;
   slug: string;
@@ -118,14 +853,22 @@ export async function getArticleBySlug(
   content: string;
   folder: string;
   tags: string[];
+  metadata: Record<string, any>;
+  description: string | null;
+  published_at: string | null;
   created_at: string;
   updated_at: string;
+  extra?: Record<string, unknown>;
 } | null> {
+  const columns = await resolveTableSchema(client, tableName, schema);
   const results = await client.execute({
     sql: `
-      SELECT id, slug, title, content, folder, tags, created_at, updated_at
-      FROM ${tableName}
-      WHERE slug = ?
+      SELECT ${selectFields(columns, 'a', [
+        'id', 'slug', 'title', 'content', 'folder', 'tags', 'metadata', 'description', 'published_at',
+        'created_at', 'updated_at'
+      ])}
+      FROM ${tableName} a
+      WHERE a.${columns.columns.slug} = ?
       LIMIT 1
     `,
     args: [slug]
@@ -143,8 +886,12 @@ export async function getArticleBySlug(
     content: row.content as string,
     folder: row.folder as string,
     tags: JSON.parse(row.tags as string || '[]'),
+    metadata: parseMetadata(row.metadata),
+    description: row.description as string | null,
+    published_at: row.published_at as string | null,
     created_at: row.created_at as string,
-    updated_at: row.updated_at as string
+    updated_at: row.updated_at as string,
+    ...readExtra(columns, row)
   };
 }
 
@@ -154,20 +901,28 @@ export async function getArticleBySlug(
 export async function getArticlesByFolder(
   client: Client,
   folder: string,
-  tableName: string = 'articles'
+  tableName: string = 'articles',
+  schema: TableSchema = {}
 ): Promise<Array<{
   id: number;
   slug: string;
   title: string;
   folder: string;
   tags: string[];
+  metadata: Record<string, any>;
+  description: string | null;
+  published_at: string | null;
+  extra?: Record<string, unknown>;
 }>> {
+  const columns = await resolveTableSchema(client, tableName, schema);
   const results = await client.execute({
     sql: `
-      SELECT id, slug, title, folder, tags
-      FROM ${tableName}
-      WHERE folder = ?
-      ORDER BY title
+      SELECT ${selectFields(columns, 'a', [
+        'id', 'slug', 'title', 'folder', 'tags', 'metadata', 'description', 'published_at'
+      ])}
+      FROM ${tableName} a
+      WHERE a.${requireColumn(columns, 'folder', 'getArticlesByFolder')} = ?
+      ORDER BY a.${columns.columns.title}
     `,
     args: [folder]
   });
@@ -177,7 +932,11 @@ export async function getArticlesByFolder(
     slug: row.slug as string,
     title: row.title as string,
     folder: row.folder as string,
-    tags: JSON.parse(row.tags as string || '[]')
+    tags: JSON.parse(row.tags as string || '[]'),
+    metadata: parseMetadata(row.metadata),
+    description: row.description as string | null,
+    published_at: row.published_at as string | null,
+    ...readExtra(columns, row)
   }));
 }
 
@@ -186,10 +945,12 @@ export async function getArticlesByFolder(
  */
 export async function getFolders(
   client: Client,
-  tableName: string = 'articles'
+  tableName: string = 'articles',
+  schema: TableSchema = {}
 ): Promise<string[]> {
+  const folder = requireColumn(await resolveTableSchema(client, tableName, schema), 'folder', 'getFolders');
   const results = await client.execute(`
-    SELECT DISTINCT folder
+    SELECT DISTINCT ${folder} AS folder
     FROM ${tableName}
     ORDER BY folder
   `);
@@ -0,0 +1,221 @@
+/**
+ * Query-focused excerpts of search results with highlighted terms
+ */
+
+export interface SnippetOptions {
+  /** Maximum excerpt length in characters, before markers are added */
+  length?: number;
+  highlightStart?: string;
+  highlightEnd?: string;
+  /** Applied to the text around the markers. Default: HTML escaping */
+  escape?: (text: string) => string;
+}
+
+/**
+ * Build a snippet of `text` for `query`
+ *
+ * Markdown is reduced to plain text and split into sentences. The window of
+ * consecutive sentences that fits in `length` and matches the most distinct
+ * query terms (then the most occurrences) is returned, falling back to the
+ * opening sentences. Words starting with a query term are wrapped in the
+ * highlight markers, and an ellipsis marks text cut at either end.
+ */
+export function createSnippet(
+  text: string,
+  query: string,
+  options: SnippetOptions = {}
+): string {
+  const {
+    length = 200,
+    highlightStart = '<mark>',
+    highlightEnd = '</mark>',
+    escape = escapeHtml
+  } = options;
+
+  if (length <= 0) {
+    throw new Error('Snippet length must be greater than 0');
+  }
+
+  const terms = queryTerms(query);
+  const pattern = termPattern(terms);
+  const sentences = splitSentences(text);
+  const { start, end } = bestWindow(sentences, terms, pattern, length);
+
+  let excerpt = sentences.slice(start, end).join(' ');
+  let before = start > 0;
+  let after = end < sentences.length;
+
+  if (excerpt.length > length) {
+    const cropped = cropAroundMatch(excerpt, pattern, length);
+    before ||= cropped.start > 0;
+    after ||= cropped.end < excerpt.length;
+    excerpt = excerpt.slice(cropped.start, cropped.end).trim();
+  }
+
+  const highlighted = highlight(excerpt, pattern, highlightStart, highlightEnd, escape);
+  return `${before ? '…' : ''}${highlighted}${after ? '…' : ''}`;
+}
+
+/**
+ * Escape text for insertion into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Lowercased, distinct words of the query, ignoring single characters
+ */
+function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter(word => word.length > 1))];
+}
+
+/**
+ * Match whole words that start with any of the terms
+ */
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+/**
+ * Reduce markdown to plain-text sentences. Headings, paragraphs and list
+ * items end a sentence even without punctuation.
+ */
+function splitSentences(markdown: string): string[] {
+  const plain = markdown
+    .replace(/^\s*(```|~~~).*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/(\*\*|__|`)/g, '');
+
+  return plain
+    .split(/\n\s*\n|\n(?=\s{0,3}(?:#{1,6}\s|>|[-*+]\s|\d+[.)]\s))/)
+    .map(block => block
+      .replace(/^\s{0,3}(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, '')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(Boolean)
+    .flatMap(block => block.split(/(?<=[.!?])\s+(?=\S)/));
+}
+
+/**
+ * Find the sentence window with the best coverage of the query terms
+ */
+function bestWindow(
+  sentences: string[],
+  terms: string[],
+  pattern: RegExp | null,
+  length: number
+): { start: number; end: number } {
+  let best = { start: 0, end: Math.min(1, sentences.length), found: 0, hits: 0 };
+
+  // Without matches, show the opening sentences
+  for (let end = 1; end < sentences.length; end++) {
+    if (sentences.slice(0, end + 1).join(' ').length > length) {
+      break;
+    }
+    best.end = end + 1;
+  }
+
+  if (!pattern) {
+    return best;
+  }
+
+  const matches = sentences.map(sentence =>
+    [...sentence.matchAll(pattern)].map(match => {
+      const word = match[0].toLowerCase();
+      return terms.find(term => word.startsWith(term))!;
+    })
+  );
+
+  for (let start = 0; start < sentences.length; start++) {
+    const found = new Set<string>();
+    let hits = 0;
+    let size = 0;
+    let end = start;
+
+    while (end < sentences.length) {
+      const added = sentences[end].length + (end > start ? 1 : 0);
+      if (end > start && size + added > length) {
+        break;
+      }
+
+      size += added;
+      matches[end].forEach(term => found.add(term));
+      hits += matches[end].length;
+      end++;
+    }
+
+    if (found.size > best.found || (found.size === best.found && hits > best.hits)) {
+      best = { start, end, found: found.size, hits };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Cut a long excerpt to `length` characters at word boundaries, keeping the
+ * first match about a third of the way in
+ */
+function cropAroundMatch(
+  text: string,
+  pattern: RegExp | null,
+  length: number
+): { start: number; end: number } {
+  const match = pattern ? new RegExp(pattern.source, pattern.flags).exec(text) : null;
+  let start = match ? Math.max(0, Math.min(match.index - Math.floor(length / 3), text.length - length)) : 0;
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || (match && space > match.index) ? start : space + 1;
+  }
+
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Wrap matches in the markers, escaping the text around and inside them
+ */
+function highlight(
+  text: string,
+  pattern: RegExp | null,
+  open: string,
+  close: string,
+  escape: (text: string) => string
+): string {
+  if (!pattern) {
+    return escape(text);
+  }
+
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    result += escape(text.slice(last, match.index)) + open + escape(match[0]) + close;
+    last = match.index! + match[0].length;
+  }
+
+  return result + escape(text.slice(last));
+}
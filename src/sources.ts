@@ -0,0 +1,142 @@
+/**
+ * Content sources: where the documents given to the indexer come from
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, relative, extname } from 'path';
+
+/** Extensions and directories used when `fileExtensions` or `exclude` are not given */
+export const DEFAULT_FILE_EXTENSIONS = ['.md', '.markdown'];
+export const DEFAULT_EXCLUDE = ['node_modules', '.git', 'dist', 'build'];
+
+/**
+ * One document to index
+ */
+export interface SourceDocument {
+  /** Stable identifier in the source, e.g. a CMS entry id; shown in progress and errors */
+  id: string;
+  /** Path such as 'guides/install.md': its extension picks the loader, the rest the slug and folder */
+  path: string;
+  /** Source text, read by the content loader */
+  raw: string;
+  /** When the document last changed; stored as `updated_at` (default: when it is indexed) */
+  lastModified?: Date | null;
+}
+
+/**
+ * A document given to `indexDocuments` or `createMemorySource`; `id` defaults to `path`
+ */
+export type DocumentInput = Omit<SourceDocument, 'id'> & { id?: string };
+
+/**
+ * Yields the documents to index, e.g. from a CMS export, a git tree or an archive
+ */
+export interface ContentSource {
+  documents(): AsyncIterable<SourceDocument> | Iterable<SourceDocument>;
+}
+
+export interface FileSourceOptions {
+  contentPath: string;
+  fileExtensions?: string[];
+  exclude?: string[];
+  /** Only read these files or directories, relative to `contentPath` with forward slashes */
+  paths?: string[];
+}
+
+/**
+ * Files under `contentPath` with one of `fileExtensions`, skipping hidden and
+ * excluded directories. This is the source `indexContent` uses by default.
+ */
+export function createFileSource(options: FileSourceOptions): ContentSource {
+  const {
+    contentPath,
+    fileExtensions = DEFAULT_FILE_EXTENSIONS,
+    exclude = DEFAULT_EXCLUDE,
+    paths
+  } = options;
+
+  return {
+    documents: async function* () {
+      const files = paths
+        ? await findPaths(contentPath, paths, fileExtensions, exclude)
+        : await findFiles(contentPath, fileExtensions, exclude);
+
+      for (const fullPath of files) {
+        const relativePath = relative(contentPath, fullPath);
+        const [raw, stats] = await Promise.all([readFile(fullPath, 'utf-8'), stat(fullPath)]);
+
+        yield { id: relativePath, path: relativePath, raw, lastModified: stats.mtime };
+      }
+    }
+  };
+}
+
+/**
+ * Documents held in memory, e.g. pages rendered by a site generator
+ */
+export function createMemorySource(documents: DocumentInput[]): ContentSource {
+  return {
+    documents: () => documents.map(document => ({ ...document, id: document.id ?? document.path }))
+  };
+}
+
+/**
+ * Find all files matching extensions
+ */
+async function findFiles(
+  dir: string,
+  extensions: string[],
+  exclude: string[]
+): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !exclude.includes(entry.name)) {
+        const subFiles = await findFiles(fullPath, extensions, exclude);
+        files.push(...subFiles);
+      }
+    } else if (extensions.includes(extname(entry.name))) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find the files at or under each path, applying the same rules as `findFiles`
+ */
+async function findPaths(
+  contentPath: string,
+  paths: string[],
+  extensions: string[],
+  exclude: string[]
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const path of paths) {
+    const segments = path.split('/');
+    const name = segments.pop()!;
+
+    if (segments.some(segment => segment.startsWith('.') || exclude.includes(segment))) {
+      continue;
+    }
+
+    const fullPath = join(contentPath, path);
+    const stats = await stat(fullPath).catch(() => null);
+
+    if (stats?.isDirectory() && !name.startsWith('.') && !exclude.includes(name)) {
+      for (const file of await findFiles(fullPath, extensions, exclude)) {
+        files.add(file);
+      }
+    } else if (stats?.isFile() && extensions.includes(extname(name))) {
+      files.add(fullPath);
+    }
+  }
+
+  return [...files];
+}
@@ -0,0 +1,88 @@
+/**
+ * Vector column types: libSQL's compressed blob types and the functions
+ * that convert JSON arrays into them
+ */
+
+import type { Client } from '@libsql/client';
+import { resolveSchema, type ResolvedSchema } from './schema.js';
+
+/**
+ * Element type of stored vectors
+ *
+ * - `F32` 4 bytes per dimension
+ * - `F16` 2 bytes per dimension, close to float32 ranking
+ * - `F8` 1 byte per dimension, scaled per vector
+ * - `F1BIT` 1 bit per dimension (the sign); distances are Hamming distances
+ */
+export type VectorType = 'F32' | 'F16' | 'F8' | 'F1BIT';
+
+/**
+ * How a table stores its embeddings, read from its schema
+ */
+export interface VectorStorage {
+  type: VectorType;
+  dimensions: number;
+  /** Whether float32 copies are kept in `embedding_full` for rescoring */
+  rescore: boolean;
+}
+
+const VECTOR_TYPES: Record<VectorType, { column: string; convert: string }> = {
+  F32: { column: 'F32_BLOB', convert: 'vector' },
+  F16: { column: 'F16_BLOB', convert: 'vector16' },
+  F8: { column: 'F8_BLOB', convert: 'vector8' },
+  F1BIT: { column: 'F1BIT_BLOB', convert: 'vector1bit' }
+};
+
+/**
+ * Check that `type` is a supported vector type
+ */
+export function assertVectorType(type: string): asserts type is VectorType {
+  if (!Object.hasOwn(VECTOR_TYPES, type)) {
+    throw new Error(
+      `Unknown vector type: ${type}. Use ${Object.keys(VECTOR_TYPES).join(', ')}.`
+    );
+  }
+}
+
+/**
+ * Column type declaring `dimensions`-length vectors of `type`, e.g. `F16_BLOB(768)`
+ */
+export function vectorColumnType(type: VectorType, dimensions: number): string {
+  return `${VECTOR_TYPES[type].column}(${dimensions})`;
+}
+
+/**
+ * SQL function converting a JSON array to a vector of `type`
+ */
+export function vectorFunction(type: VectorType): string {
+  return VECTOR_TYPES[type].convert;
+}
+
+/**
+ * Read the vector type and size of a table's `embedding` column (or the
+ * column `schema` maps it to), or null if the table does not exist
+ */
+export async function getVectorStorage(
+  client: Client,
+  tableName: string,
+  schema: ResolvedSchema = resolveSchema()
+): Promise<VectorStorage | null> {
+  const { embedding, embedding_full: embeddingFull } = schema.columns;
+  const result = await client.execute({
+    sql: `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    args: [tableName]
+  });
+
+  const sql = String(result.rows[0]?.sql ?? '');
+  const match = new RegExp(`\\b${embedding}["'\`\\]]?\\s+(F32|F16|F8|F1BIT)_BLOB\\((\\d+)\\)`, 'i').exec(sql);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    type: match[1].toUpperCase() as VectorType,
+    dimensions: Number(match[2]),
+    rescore: !!embeddingFull && new RegExp(`\\b${embeddingFull}["'\`\\]]?\\s+F32_BLOB`, 'i').test(sql)
+  };
+}
@@ -0,0 +1,4 @@
+/**
+ * Library version, kept in sync with package.json by `make update-all-configs`
+ */
+export const VERSION = '0.1.3';
@@ -0,0 +1,134 @@
+/**
+ * Watch mode: re-index content files as they are edited
+ */
+
+import { statSync, watch } from 'fs';
+import { extname, join } from 'path';
+import { indexContent, type IndexerOptions, type IndexResult } from './indexer.js';
+import { DEFAULT_EXCLUDE, DEFAULT_FILE_EXTENSIONS } from './sources.js';
+
+export interface WatchOptions
+  extends Omit<IndexerOptions, 'contentPath' | 'source' | 'incremental' | 'paths' | 'atomic'> {
+  contentPath: string;
+  /** Milliseconds to wait after the last change before re-indexing (default 200) */
+  debounce?: number;
+  /** Called after each re-index that added, updated, removed or failed files */
+  onUpdate?: (update: WatchUpdate) => void;
+  /** Called when a re-index or the watcher fails; watching continues */
+  onError?: (error: unknown) => void;
+}
+
+export interface WatchUpdate {
+  /** Changed files and directories, relative to `contentPath` */
+  paths: string[];
+  result: IndexResult;
+}
+
+export interface ContentWatcher {
+  /** Stop watching, waiting for a re-index in progress to finish */
+  close(): Promise<void>;
+}
+
+/**
+ * Watch `contentPath` and re-index the files that change
+ *
+ * Changes are collected until none arrive for `debounce` milliseconds, then
+ * only the touched files are re-embedded and upserted. Renamed and deleted
+ * files (or directories) have their rows removed. Re-indexes run one at a
+ * time; changes made during one are picked up by the next. The table is not
+ * indexed on start, so run `indexContent` first.
+ */
+export function watchContent(options: WatchOptions): ContentWatcher {
+  const {
+    contentPath,
+    fileExtensions = DEFAULT_FILE_EXTENSIONS,
+    exclude = DEFAULT_EXCLUDE,
+    debounce = 200,
+    onUpdate,
+    onError = error => console.error('Failed to re-index:', error),
+    ...indexerOptions
+  } = options;
+
+  if (!Number.isFinite(debounce) || debounce < 0) {
+    throw new Error(`debounce must be a non-negative number of milliseconds, got ${debounce}`);
+  }
+
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    const paths = [...changed];
+    changed.clear();
+
+    running = running.then(async () => {
+      try {
+        const result = await indexContent({
+          ...indexerOptions,
+          contentPath,
+          fileExtensions,
+          exclude,
+          paths
+        });
+
+        if (result.added + result.updated + result.deleted + result.failed > 0) {
+          onUpdate?.({ paths, result });
+        }
+      } catch (error) {
+        onError(error);
+      }
+    });
+  };
+
+  const watcher = watch(contentPath, { recursive: true }, (_event, filename) => {
+    const path = filename?.toString().replace(/\\/g, '/');
+    if (!path || !isWatched(contentPath, path, fileExtensions, exclude)) {
+      return;
+    }
+
+    changed.add(path);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounce);
+  });
+
+  watcher.on('error', onError);
+
+  return {
+    close: async () => {
+      watcher.close();
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await running;
+    }
+  };
+}
+
+/**
+ * Check whether a changed path may be content: a file with an indexed
+ * extension, or a directory, outside excluded and hidden directories.
+ * Directory names can contain dots (`v1.2`), so other names are only skipped
+ * when they exist as files; a deleted one may have been a directory holding
+ * indexed files. Editor backups (`page.md~`) and swap files are ignored.
+ */
+function isWatched(contentPath: string, path: string, extensions: string[], exclude: string[]): boolean {
+  const segments = path.split('/');
+  const name = segments.pop()!;
+
+  if (segments.some(segment => segment.startsWith('.') || exclude.includes(segment))) {
+    return false;
+  }
+  if (extensions.includes(extname(name))) {
+    return true;
+  }
+  if (name.startsWith('.') || exclude.includes(name)) {
+    return false;
+  }
+
+  const stats = statSync(join(contentPath, path), { throwIfNoEntry: false });
+  return !stats || stats.isDirectory();
+}
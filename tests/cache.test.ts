@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createClient } from '@libsql/client';
+import { appendFile, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import {
+  createFileCache,
+  createLibsqlCache,
+  createMemoryCache,
+  documentCacheKey,
+  queryCacheKey
+} from '../src/cache.js';
+import type { Embedder } from '../src/embeddings.js';
+import { fitPca, type PcaProjection } from '../src/pca.js';
+
+describe('cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createMemoryCache', () => {
+    it('should evict the least recently used entry', async () => {
+      const cache = createMemoryCache({ maxEntries: 2 });
+
+      await cache.set('a', [1]);
+      await cache.set('b', [2]);
+      expect(await cache.get('a')).toEqual([1]);
+
+      await cache.set('c', [3]);
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('a')).toEqual([1]);
+      expect(await cache.get('c')).toEqual([3]);
+    });
+
+    it('should expire entries after the ttl', async () => {
+      vi.useFakeTimers();
+      const cache = createMemoryCache({ ttl: 1000 });
+
+      await cache.set('a', [1]);
+      vi.advanceTimersByTime(999);
+      expect(await cache.get('a')).toEqual([1]);
+
+      vi.advanceTimersByTime(1);
+      expect(await cache.get('a')).toBeNull();
+    });
+
+    it('should validate options', () => {
+      expect(() => createMemoryCache({ maxEntries: 0 })).toThrow('maxEntries must be a positive integer');
+      expect(() => createMemoryCache({ ttl: -1 })).toThrow('ttl must be a positive number');
+    });
+  });
+
+  describe('createLibsqlCache', () => {
+    let client: ReturnType<typeof createClient>;
+
+    beforeEach(() => {
+      client = createClient({ url: ':memory:' });
+    });
+
+    it('should store embeddings in a table', async () => {
+      const cache = createLibsqlCache(client, { tableName: 'query_cache' });
+
+      expect(await cache.get('a')).toBeNull();
+      await cache.set('a', [0.5, -1]);
+      await cache.set('a', [0.25, 1]);
+
+      expect(await cache.get('a')).toEqual([0.25, 1]);
+      expect(await createLibsqlCache(client, { tableName: 'query_cache' }).get('a')).toEqual([0.25, 1]);
+    });
+
+    it('should expire entries after the ttl', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const cache = createLibsqlCache(client, { ttl: 1000 });
+
+      await cache.set('a', [1]);
+      expect(await cache.get('a')).toEqual([1]);
+
+      vi.setSystemTime(Date.now() + 1000);
+      expect(await cache.get('a')).toBeNull();
+    });
+  });
+
+  describe('createFileCache', () => {
+    const directory = join(process.cwd(), 'test-cache');
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', async () => {
+      const cache = createFileCache({ directory });
+
+      expect(await cache.get('a')).toBeNull();
+      await cache.set('a', [1, 2]);
+      await cache.set('b', [3]);
+      await cache.set('a', [4]);
+
+      const reopened = createFileCache({ directory });
+      expect(await reopened.get('a')).toEqual([4]);
+      expect(await reopened.get('b')).toEqual([3]);
+
+      const lines = (await readFile(join(directory, 'embeddings.jsonl'), 'utf-8')).trim().split('\n');
+      expect(lines).toHaveLength(3);
+    });
+
+    it('should skip partial lines', async () => {
+      await createFileCache({ directory }).set('a', [1]);
+      await appendFile(join(directory, 'embeddings.jsonl'), '{"key":"b","embe');
+
+      const cache = createFileCache({ directory });
+      expect(await cache.get('a')).toEqual([1]);
+      expect(await cache.get('b')).toBeNull();
+    });
+
+    it('should expire entries after the ttl', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await createFileCache({ directory, ttl: 1000 }).set('a', [1]);
+
+      vi.setSystemTime(Date.now() + 1000);
+      expect(await createFileCache({ directory }).get('a')).toBeNull();
+    });
+  });
+
+  describe('cache keys', () => {
+    const provider: Embedder = {
+      modelId: 'fake:model:4',
+      dimensions: 4,
+      embed: async () => [1, 0, 0, 0],
+      embedBatch: async texts => texts.map(() => [1, 0, 0, 0])
+    };
+
+    it('should normalize whitespace and Unicode', () => {
+      expect(queryCacheKey('  install\n guide ', { provider }))
+        .toBe(queryCacheKey('install guide', { provider }));
+      expect(queryCacheKey('ﬁle', { provider })).toBe(queryCacheKey('file', { provider }));
+      expect(queryCacheKey('Install', { provider })).not.toBe(queryCacheKey('install', { provider }));
+    });
+
+    it('should key documents by their exact text', () => {
+      expect(documentCacheKey('install', { provider })).not.toBe(queryCacheKey('install', { provider }));
+      expect(documentCacheKey(' install', { provider })).not.toBe(documentCacheKey('install', { provider }));
+      expect(documentCacheKey('install guide', { provider, maxLength: 7 }))
+        .toBe(documentCacheKey('install', { provider }));
+    });
+
+    it('should differ by model and projection', () => {
+      const other = { ...provider, modelId: 'fake:other:4' };
+      const projection = { mean: [0, 0, 0, 0], components: [[1, 0, 0, 0], [0, 1, 0, 0]] };
+      const reduced = { provider, dimensions: 2, reduction: 'pca' as const };
+
+      expect(queryCacheKey('install', { provider }))
+        .not.toBe(queryCacheKey('install', { provider: other }));
+      expect(queryCacheKey('install', { ...reduced, projection }))
+        .not.toBe(queryCacheKey('install', { ...reduced, projection: { ...projection, mean: [1, 0, 0, 0] } }));
+    });
+
+    it('should key projections on the id fitPca stores', () => {
+      const reduced = { provider, dimensions: 2, reduction: 'pca' as const };
+      const projection = fitPca([[1, 0, 0, 0], [0, 2, 0, 0], [0, 0, 3, 1]], 2);
+      const parsed = (): PcaProjection => JSON.parse(JSON.stringify(projection));
+
+      expect(projection.id).toMatch(/^[0-9a-f]{64}$/);
+      expect(queryCacheKey('install', { ...reduced, projection: parsed() }))
+        .toBe(queryCacheKey('install', { ...reduced, projection: parsed() }));
+      expect(queryCacheKey('install', { ...reduced, projection }))
+        .not.toBe(queryCacheKey('install', { ...reduced, projection: { ...projection, id: 'refitted' } }));
+    });
+  });
+});
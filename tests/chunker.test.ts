@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown, slugifyHeading } from '../src/chunker.js';
+
+describe('chunker', () => {
+  describe('slugifyHeading', () => {
+    it('should lowercase and hyphenate headings', () => {
+      expect(slugifyHeading('Getting Started')).toBe('getting-started');
+    });
+
+    it('should strip punctuation', () => {
+      expect(slugifyHeading('What is `libsql`?')).toBe('what-is-libsql');
+    });
+  });
+
+  describe('chunkMarkdown', () => {
+    it('should return a single chunk for short text', () => {
+      const chunks = chunkMarkdown('Just a short paragraph.');
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toEqual({
+        index: 0,
+        content: 'Just a short paragraph.',
+        heading: null,
+        anchor: null,
+        start: 0,
+        end: 23
+      });
+    });
+
+    it('should split on headings and record anchors', () => {
+      const text = 'Intro\n\n# Install\n\nRun it.\n\n## Usage\n\nUse it.';
+      const chunks = chunkMarkdown(text);
+
+      expect(chunks.map(chunk => chunk.heading)).toEqual([null, 'Install', 'Usage']);
+      expect(chunks.map(chunk => chunk.anchor)).toEqual([null, 'install', 'usage']);
+      expect(chunks.map(chunk => chunk.content)).toEqual(['Intro', 'Run it.', 'Use it.']);
+    });
+
+    it('should make duplicate anchors unique', () => {
+      const chunks = chunkMarkdown('# Notes\n\nOne\n\n# Notes\n\nTwo');
+
+      expect(chunks.map(chunk => chunk.anchor)).toEqual(['notes', 'notes-1']);
+    });
+
+    it('should ignore headings inside code fences', () => {
+      const text = '# Example\n\n```sh\n# not a heading\n\necho hi\n```';
+      const chunks = chunkMarkdown(text);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].heading).toBe('Example');
+      expect(chunks[0].content).toContain('# not a heading');
+    });
+
+    it('should report offsets into the original text', () => {
+      const text = 'First paragraph.\n\n# Section\n\nSecond paragraph.';
+
+      for (const chunk of chunkMarkdown(text)) {
+        expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+      }
+    });
+
+    it('should pack paragraphs up to chunkSize', () => {
+      const text = ['aaaa aaaa', 'bbbb bbbb', 'cccc cccc'].join('\n\n');
+      const chunks = chunkMarkdown(text, { chunkSize: 20, chunkOverlap: 0 });
+
+      expect(chunks.map(chunk => chunk.content)).toEqual([
+        'aaaa aaaa\n\nbbbb bbbb',
+        'cccc cccc'
+      ]);
+    });
+
+    it('should split oversized paragraphs with overlap', () => {
+      const text = 'word '.repeat(50).trim();
+      const chunks = chunkMarkdown(text, { chunkSize: 50, chunkOverlap: 10 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.content.length).toBeLessThanOrEqual(50);
+        expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+      }
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      }
+    });
+
+    it('should throw when overlap is not smaller than chunkSize', () => {
+      expect(() => chunkMarkdown('text', { chunkSize: 10, chunkOverlap: 10 }))
+        .toThrow('chunkOverlap must be between 0 and chunkSize');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { runCli } from '../src/cli.js';
+import { registerEmbeddingProvider } from '../src/embeddings.js';
+
+describe('cli', () => {
+  const testDir = join(process.cwd(), 'test-cli');
+  const contentDir = join(testDir, 'content');
+  const url = `file:${join(testDir, 'search.db')}`;
+
+  let stdout: string[];
+  let stderr: string[];
+
+  beforeAll(() => {
+    // Counts of a few letters, so results are deterministic without a model
+    const embed = (text: string) => {
+      if (text.includes('FAIL')) {
+        throw new Error('cannot embed');
+      }
+      return ['a', 'e', 'o'].map(letter => text.split(letter).length);
+    };
+
+    registerEmbeddingProvider('letters', () => ({
+      modelId: 'letters:3',
+      dimensions: 3,
+      embed: async text => embed(text),
+      embedBatch: async texts => texts.map(embed)
+    }));
+  });
+
+  beforeEach(async () => {
+    stdout = [];
+    stderr = [];
+    await mkdir(join(contentDir, 'guides'), { recursive: true });
+    await writeFile(join(contentDir, 'guides', 'alpha.md'), '---\ntitle: Alpha\n---\naaaa banana');
+    await writeFile(join(contentDir, 'omega.md'), '---\ntitle: Omega\n---\nooo hello');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  function run(args: string[], env: Record<string, string> = {}, signal?: AbortSignal) {
+    return runCli(args, {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      env: { EMBEDDING_PROVIDER: 'letters', EMBEDDING_DIMENSIONS: '3', ...env },
+      cwd: testDir,
+      signal
+    });
+  }
+
+  it('should print usage with --help', async () => {
+    expect(await run(['--help'])).toBe(0);
+    expect(stdout[0]).toContain('Usage: libsql-search');
+  });
+
+  it('should fail on an unknown command', async () => {
+    expect(await run(['reindex'])).toBe(1);
+    expect(stderr[0]).toContain('Unknown command: reindex');
+  });
+
+  it('should require a database URL', async () => {
+    expect(await run(['stats'])).toBe(1);
+    expect(stderr[0]).toContain('TURSO_DATABASE_URL');
+  });
+
+  it('should create the table and companions with init', async () => {
+    expect(await run(['init', '--url', url, '--fts', '--chunks'])).toBe(0);
+    expect(stdout[0]).toBe('Created articles (3 dimensions) with articles_chunks, articles_fts');
+
+    expect(await run(['stats', '--url', url, '--json'])).toBe(0);
+    expect(JSON.parse(stdout[1])).toMatchObject({
+      table: 'articles',
+      dimensions: 3,
+      articles: 0,
+      chunks: 0,
+      fts: true,
+      manifest: { provider: 'letters', modelId: 'letters:3', indexedAt: null },
+      folders: []
+    });
+  });
+
+  it('should index content and report progress', async () => {
+    expect(await run(['index', contentDir], { TURSO_DATABASE_URL: url })).toBe(0);
+
+    expect(stderr).toEqual(['[1/2] guides/alpha.md', '[2/2] omega.md']);
+    expect(stdout[0]).toBe(
+      'Indexed 2/2 files: 2 added, 0 updated, 0 unchanged, 0 deleted, 0 failed'
+    );
+
+    expect(await run(['stats', '--json'], { TURSO_DATABASE_URL: url })).toBe(0);
+    expect(JSON.parse(stdout[1]).folders).toEqual([
+      { folder: 'guides', count: 1 },
+      { folder: 'root', count: 1 }
+    ]);
+  });
+
+  it('should exit non-zero when a file fails to index', async () => {
+    await writeFile(join(contentDir, 'broken.md'), '---\ntitle: FAIL\n---\nbroken');
+
+    expect(await run(['index', contentDir, '--url', url, '--json'])).toBe(1);
+    expect(JSON.parse(stdout[0])).toMatchObject({ total: 3, failed: 3 });
+  });
+
+  it('should print ranked search results', async () => {
+    await run(['index', contentDir, '--url', url]);
+    stdout = [];
+
+    expect(await run(['search', 'ooo', '--url', url])).toBe(0);
+
+    const lines = stdout[0].split('\n');
+    expect(lines[0]).toMatch(/^#\s+distance\s+slug\s+title$/);
+    expect(lines[2]).toMatch(/^1\s+[\d.]+\s+omega\s+Omega$/);
+  });
+
+  it('should print search results as JSON', async () => {
+    await run(['index', contentDir, '--url', url]);
+    stdout = [];
+
+    expect(await run(['search', 'aaaa', '--url', url, '--limit', '1', '--json'])).toBe(0);
+
+    const results = JSON.parse(stdout[0]);
+    expect(results).toHaveLength(1);
+    expect(results[0].slug).toBe('guides/alpha');
+  });
+
+  it('should re-index changed files with --watch', async () => {
+    const controller = new AbortController();
+    const running = run(['index', contentDir, '--url', url, '--watch'], {}, controller.signal);
+
+    await vi.waitFor(() => expect(stderr).toContain(`Watching ${contentDir} for changes`));
+    await writeFile(join(contentDir, 'omega.md'), '---\ntitle: Omega\n---\nooo goodbye');
+
+    await vi.waitFor(() => expect(stdout[1]).toBe(
+      'omega.md: Indexed 1/1 files: 0 added, 1 updated, 0 unchanged, 0 deleted, 0 failed'
+    ));
+    controller.abort();
+    expect(await running).toBe(0);
+  });
+
+  it('should roll back to the previous index', async () => {
+    await run(['index', contentDir, '--url', url]);
+    await rm(join(contentDir, 'omega.md'));
+    await run(['index', contentDir, '--url', url]);
+    stdout = [];
+
+    expect(await run(['rollback', '--url', url])).toBe(0);
+    expect(stdout[0]).toBe('Restored the previous generation of articles');
+
+    await run(['stats', '--url', url, '--json']);
+    expect(JSON.parse(stdout[1]).articles).toBe(2);
+  });
+
+  it('should print pending migrations with --dry-run and apply them', async () => {
+    expect(await run(['migrate', '--url', url, '--dry-run'])).toBe(0);
+    expect(stdout[0]).toMatch(/^CREATE TABLE articles \(/);
+    expect(stdout[0]).toContain('embedding F32_BLOB(3)');
+
+    stdout = [];
+    expect(await run(['migrate', '--url', url])).toBe(0);
+    expect(stdout[0]).toBe('Migrated articles from schema version 0 to 4');
+
+    stdout = [];
+    await run(['migrate', '--url', url]);
+    expect(stdout[0]).toBe('articles is up to date (schema version 4)');
+  });
+
+  it('should read settings from the config file', async () => {
+    await writeFile(join(testDir, 'libsql-search.config.json'), JSON.stringify({
+      url,
+      tableName: 'docs',
+      contentPath: contentDir
+    }));
+
+    expect(await run(['index'])).toBe(0);
+    expect(await run(['stats', '--json'])).toBe(0);
+    expect(JSON.parse(stdout[1])).toMatchObject({ table: 'docs', articles: 2 });
+  });
+
+  it('should create compressed tables', async () => {
+    expect(await run(['index', contentDir, '--url', url, '--vector-type', 'f16', '--rescore'])).toBe(0);
+    expect(await run(['stats', '--url', url, '--json'])).toBe(0);
+    expect(JSON.parse(stdout[1])).toMatchObject({ vectorType: 'F16', rescore: true, articles: 2 });
+
+    expect(await run(['search', 'ooo', '--url', url, '--json'])).toBe(0);
+    expect(JSON.parse(stdout[2])[0].slug).toBe('omega');
+  });
+
+  it('should reuse embeddings from the cache directory', async () => {
+    const cacheDir = join(testDir, 'cache');
+
+    expect(await run(['index', contentDir, '--url', url, '--embedding-cache', cacheDir])).toBe(0);
+    const cached = await readFile(join(cacheDir, 'embeddings.jsonl'), 'utf-8');
+    expect(cached.trim().split('\n')).toHaveLength(2);
+
+    const previewUrl = `file:${join(testDir, 'preview.db')}`;
+    expect(await run(['index', contentDir, '--url', previewUrl], { EMBEDDING_CACHE: cacheDir })).toBe(0);
+    expect(await readFile(join(cacheDir, 'embeddings.jsonl'), 'utf-8')).toBe(cached);
+  });
+
+  it('should reject unknown vector types', async () => {
+    expect(await run(['init', '--url', url, '--vector-type', 'F4'])).toBe(1);
+    expect(stderr[0]).toContain('Invalid --vector-type: F4');
+  });
+
+  it('should reject invalid numeric flags', async () => {
+    expect(await run(['search', 'query', '--url', url, '--limit', 'ten'])).toBe(1);
+    expect(stderr[0]).toContain('--limit must be a positive integer');
+
+    expect(await run(['search', 'query', '--url', url, '--min-score', '2'])).toBe(1);
+    expect(stderr[1]).toContain('--min-score must be a number from 0 to 1');
+
+    expect(await run(['search', 'query', '--url', url, '--limit', '0'])).toBe(1);
+    expect(stderr[2]).toContain('--limit must be a positive integer, got 0');
+
+    expect(await run(['init', '--url', url, '--dimensions=-4'])).toBe(1);
+    expect(stderr[3]).toContain('--dimensions must be a positive integer, got -4');
+    expect(stderr[3]).toContain('Usage: libsql-search');
+
+    expect(await run(['index', '--url', url, '--chunk-size', '0'])).toBe(1);
+    expect(stderr[4]).toContain('--chunk-size must be a positive integer, got 0');
+  });
+});
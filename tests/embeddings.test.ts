@@ -1,8 +1,13 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
 import {
   generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingModelId,
+  registerEmbeddingProvider,
+  resolveEmbedder,
   padEmbedding,
   prepareTextForEmbedding,
+  type Embedder,
   type EmbeddingOptions
 } from '../src/embeddings.js';
 
@@ -71,6 +76,31 @@ describe('embeddings', () => {
     });
   });
 
+  describe('getEmbeddingModelId', () => {
+    it('should include provider, model and dimensions', () => {
+      expect(getEmbeddingModelId({ provider: 'local' }))
+        .toBe('local:Xenova/all-MiniLM-L6-v2:384');
+      expect(getEmbeddingModelId({ provider: 'openai', dimensions: 3072 }))
+        .toBe('openai:text-embedding-3-large:3072');
+    });
+
+    it('should default to the local provider', () => {
+      expect(getEmbeddingModelId()).toBe(getEmbeddingModelId({ provider: 'local' }));
+    });
+
+    it('should change when dimensions change', () => {
+      expect(getEmbeddingModelId({ provider: 'openai', dimensions: 512 }))
+        .not.toBe(getEmbeddingModelId({ provider: 'openai', dimensions: 1536 }));
+    });
+
+    it('should record how vectors are resized', () => {
+      expect(getEmbeddingModelId({ provider: 'local', dimensions: 768 }))
+        .toBe('local:Xenova/all-MiniLM-L6-v2:384>pad:768');
+      expect(getEmbeddingModelId({ provider: 'gemini', dimensions: 256 }))
+        .toBe('gemini:text-embedding-004:768>truncate:256');
+    });
+  });
+
   describe('generateEmbedding', () => {
     it('should generate local embeddings with correct dimensions', async () => {
       const text = 'This is a test sentence for embedding generation';
@@ -112,4 +142,280 @@ describe('embeddings', () => {
       ).rejects.toThrow('OPENAI_API_KEY is required');
     });
   });
+
+  describe('generateEmbeddings', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function openAIResponse(inputs: string[]) {
+      // Return embeddings out of order to check they are sorted by index
+      const data = inputs
+        .map((input, index) => ({ index, embedding: [input.length, index] }))
+        .reverse();
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    }
+
+    it('should generate local embeddings for every text in order', async () => {
+      const embeddings = await generateEmbeddings(['first text', 'second text', 'third text'], {
+        provider: 'local',
+        dimensions: 768,
+        batchSize: 2
+      });
+
+      expect(embeddings).toHaveLength(3);
+      expect(embeddings.every(embedding => embedding.length === 768)).toBe(true);
+    }, 30000);
+
+    it('should send OpenAI texts in batches and keep input order', async () => {
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+        openAIResponse(JSON.parse(init.body as string).input)
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const onBatch = vi.fn();
+      const embeddings = await generateEmbeddings(['a', 'bb', 'ccc'], {
+        provider: 'openai',
+        apiKey: 'test-key',
+        batchSize: 2,
+        onBatch
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).input).toEqual(['a', 'bb']);
+      expect(embeddings).toEqual([[1, 0], [2, 1], [3, 0]]);
+      expect(onBatch).toHaveBeenLastCalledWith(3, 3);
+    });
+
+    it('should retry rate-limited requests using Retry-After', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response('rate limited', {
+          status: 429,
+          headers: { 'retry-after': '0' }
+        }))
+        .mockImplementation(async (_url: string, init: RequestInit) =>
+          openAIResponse(JSON.parse(init.body as string).input)
+        );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const embeddings = await generateEmbeddings(['hello'], {
+        provider: 'openai',
+        apiKey: 'test-key'
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(embeddings).toEqual([[5, 0]]);
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchMock = vi.fn(async () => new Response('bad request', { status: 400 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(
+        generateEmbeddings(['hello'], { provider: 'openai', apiKey: 'test-key' })
+      ).rejects.toThrow('OpenAI API error: bad request');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error for unknown provider', async () => {
+      await expect(
+        generateEmbeddings(['test'], { provider: 'unknown' as any })
+      ).rejects.toThrow('Unknown embedding provider');
+    });
+  });
+
+  describe('custom providers', () => {
+    function createFakeEmbedder(dimensions: number = 3): Embedder {
+      return {
+        modelId: `fake:length:${dimensions}`,
+        dimensions,
+        embed: async text => new Array(dimensions).fill(text.length),
+        embedBatch: async texts => texts.map(text => new Array(dimensions).fill(text.length))
+      };
+    }
+
+    it('should accept a provider instance', async () => {
+      const provider = createFakeEmbedder();
+
+      expect(await generateEmbedding('abcd', { provider })).toEqual([4, 4, 4]);
+      expect(await generateEmbeddings(['a', 'bb'], { provider })).toEqual([[1, 1, 1], [2, 2, 2]]);
+      expect(getEmbeddingModelId({ provider })).toBe('fake:length:3');
+    });
+
+    it('should reject batch settings that are not positive integers', async () => {
+      const provider = createFakeEmbedder();
+
+      await expect(generateEmbeddings(['a'], { provider, batchSize: 0 }))
+        .rejects.toThrow('batchSize must be a positive integer, got 0');
+      await expect(generateEmbeddings(['a'], { provider, concurrency: -1 }))
+        .rejects.toThrow('concurrency must be a positive integer, got -1');
+      await expect(generateEmbeddings(['a'], { provider, requestsPerMinute: NaN }))
+        .rejects.toThrow('requestsPerMinute must be a positive integer, got NaN');
+    });
+
+    it('should apply maxLength before calling the provider', async () => {
+      const provider = createFakeEmbedder();
+
+      expect(await generateEmbedding('abcdef', { provider, maxLength: 2 })).toEqual([2, 2, 2]);
+    });
+
+    it('should resolve registered providers by name with the given options', async () => {
+      const factory = vi.fn((options: EmbeddingOptions) => createFakeEmbedder(options.dimensions));
+      registerEmbeddingProvider('fake', factory);
+
+      const embedding = await generateEmbedding('abc', { provider: 'fake', dimensions: 2 });
+
+      expect(embedding).toEqual([3, 3]);
+      expect(factory).toHaveBeenCalledWith(expect.objectContaining({ dimensions: 2 }));
+      expect(getEmbeddingModelId({ provider: 'fake', dimensions: 2 })).toBe('fake:length:2');
+    });
+
+    it('should resolve the built-in providers through the registry', () => {
+      const embedder = resolveEmbedder({ provider: 'openai', dimensions: 512 });
+
+      expect(embedder.modelId).toBe('openai:text-embedding-3-small:512');
+      expect(embedder.dimensions).toBe(512);
+    });
+
+    it('should default to the native dimensions', () => {
+      expect(resolveEmbedder({ provider: 'local' }).dimensions).toBe(384);
+      expect(resolveEmbedder({ provider: 'gemini' }).dimensions).toBe(768);
+      expect(resolveEmbedder({ provider: 'openai' }).dimensions).toBe(1536);
+    });
+
+    it('should reject an empty provider name', () => {
+      expect(() => registerEmbeddingProvider('', () => createFakeEmbedder())).toThrow(
+        'Embedding provider name is required'
+      );
+    });
+  });
+
+  describe('local models', () => {
+    it('should describe the selected model', () => {
+      const embedder = resolveEmbedder({ model: 'Xenova/bge-base-en-v1.5' });
+
+      expect(embedder.modelId).toBe('local:Xenova/bge-base-en-v1.5:768');
+      expect(embedder.dimensions).toBe(768);
+      expect(embedder.queryPrefix).toBe('Represent this sentence for searching relevant passages: ');
+      expect(embedder.documentPrefix).toBeUndefined();
+    });
+
+    it('should use e5 query and passage prefixes', () => {
+      const embedder = resolveEmbedder({ model: 'Xenova/e5-small-v2' });
+
+      expect(embedder.queryPrefix).toBe('query: ');
+      expect(embedder.documentPrefix).toBe('passage: ');
+    });
+
+    it('should distinguish full-precision weights', () => {
+      expect(getEmbeddingModelId({ quantized: false }))
+        .toBe('local:Xenova/all-MiniLM-L6-v2:fp32:384');
+    });
+
+    it('should truncate Matryoshka local models', () => {
+      expect(getEmbeddingModelId({ model: 'nomic-ai/nomic-embed-text-v1.5', dimensions: 256 }))
+        .toBe('local:nomic-ai/nomic-embed-text-v1.5:768>truncate:256');
+    });
+
+    it('should require dimensions for unknown models', () => {
+      expect(() => resolveEmbedder({ model: 'Xenova/unknown' })).toThrow('Unknown local model Xenova/unknown');
+      expect(resolveEmbedder({ model: 'Xenova/unknown', dimensions: 512 }).modelId)
+        .toBe('local:Xenova/unknown:512');
+    });
+  });
+
+  describe('input prefixes', () => {
+    const provider: Embedder = {
+      modelId: 'fake:prefixed:1',
+      dimensions: 1,
+      queryPrefix: 'query: ',
+      documentPrefix: 'd: ',
+      embed: async text => [text.length],
+      embedBatch: async texts => texts.map(text => [text.length])
+    };
+
+    it('should prefix documents by default', async () => {
+      expect(await generateEmbedding('abc', { provider })).toEqual([6]);
+      expect(await generateEmbeddings(['abc'], { provider })).toEqual([[6]]);
+    });
+
+    it('should prefix queries with the query prefix', async () => {
+      expect(await generateEmbedding('abc', { provider, inputType: 'query' })).toEqual([10]);
+      expect(await generateEmbedding('abcd', { provider, inputType: 'query', maxLength: 2 }))
+        .toEqual([9]);
+    });
+
+    it('should keep prefixes when resizing', async () => {
+      expect(await generateEmbedding('abc', { provider, dimensions: 2 })).toEqual([6, 0]);
+    });
+  });
+
+  describe('dimension reduction', () => {
+    // Native 4-dimension vectors with decreasing weight per dimension
+    function createNativeEmbedder(matryoshka: boolean): Embedder {
+      const vector = [0.8, 0.4, 0.4, 0.2];
+      return {
+        modelId: 'fake:native:4',
+        dimensions: 4,
+        matryoshka,
+        embed: async () => vector,
+        embedBatch: async texts => texts.map(() => vector)
+      };
+    }
+
+    it('should pad to larger dimensions', async () => {
+      const provider = createNativeEmbedder(false);
+      const embedding = await generateEmbedding('text', { provider, dimensions: 6 });
+
+      expect(embedding).toEqual([0.8, 0.4, 0.4, 0.2, 0, 0]);
+      expect(getEmbeddingModelId({ provider, dimensions: 6 })).toBe('fake:native:4>pad:6');
+    });
+
+    it('should truncate and re-normalize Matryoshka models', async () => {
+      const provider = createNativeEmbedder(true);
+      const [embedding] = await generateEmbeddings(['text'], { provider, dimensions: 2 });
+
+      expect(embedding[0]).toBeCloseTo(0.8 / Math.hypot(0.8, 0.4), 10);
+      expect(Math.hypot(...embedding)).toBeCloseTo(1, 10);
+    });
+
+    it('should refuse to shrink other models without pca', () => {
+      const provider = createNativeEmbedder(false);
+
+      expect(() => resolveEmbedder({ provider, dimensions: 2 })).toThrow("Use reduction: 'pca'");
+      expect(() => resolveEmbedder({ provider, dimensions: 2, reduction: 'truncate' }))
+        .toThrow('cannot be truncated');
+      expect(() => resolveEmbedder({ provider, dimensions: 2, reduction: 'pad' }))
+        .toThrow("'pad' cannot reduce");
+      expect(() => resolveEmbedder({ provider, dimensions: 6, reduction: 'pca' }))
+        .toThrow("'pca' cannot expand");
+    });
+
+    it('should project with a PCA projection', async () => {
+      const provider = createNativeEmbedder(false);
+      const projection = {
+        mean: [0, 0, 0, 0],
+        components: [[1, 0, 0, 0], [0, 0, 0, 1]]
+      };
+
+      const embedding = await generateEmbedding('text', {
+        provider,
+        dimensions: 2,
+        reduction: 'pca',
+        projection
+      });
+
+      expect(embedding[0]).toBeCloseTo(0.8 / Math.hypot(0.8, 0.2), 10);
+      expect(getEmbeddingModelId({ provider, dimensions: 2, reduction: 'pca' }))
+        .toBe('fake:native:4>pca:2');
+    });
+
+    it('should require a projection for pca', async () => {
+      await expect(generateEmbedding('text', {
+        provider: createNativeEmbedder(false),
+        dimensions: 2,
+        reduction: 'pca'
+      })).rejects.toThrow('PCA reduction requires a fitted projection');
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { createTable } from '../src/indexer.js';
+import { compileFilter, type SearchFilter } from '../src/filter.js';
+
+describe('filter', () => {
+  const testDbUrl = ':memory:';
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(async () => {
+    client = createClient({ url: testDbUrl });
+    await createTable(client, 'articles', 3);
+
+    const rows = [
+      ['docs/intro', 'docs', ['guide'], { draft: false, author: 'ana' }, '2024-01-10 00:00:00'],
+      ['docs/api/search', 'docs/api', ['api', 'guide'], { draft: true, author: 'ben' }, '2024-03-05 00:00:00'],
+      ['blog/launch', 'blog', ['news'], { author: 'ana' }, '2024-06-01 12:00:00'],
+      ['docs-old/legacy', 'docs-old', [], {}, '2023-01-01 00:00:00']
+    ] as const;
+
+    for (const [slug, folder, tags, metadata, createdAt] of rows) {
+      await client.execute({
+        sql: `INSERT INTO articles
+              (slug, title, content, folder, tags, metadata, embedding, created_at, updated_at)
+              VALUES (?, ?, '', ?, ?, ?, vector('[1, 0, 0]'), ?, ?)`,
+        args: [slug, slug, folder, JSON.stringify(tags), JSON.stringify(metadata), createdAt, createdAt]
+      });
+    }
+  });
+
+  async function matchingSlugs(filter: SearchFilter): Promise<string[]> {
+    const { conditions, args } = compileFilter(filter, 'a');
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await client.execute({
+      sql: `SELECT a.slug FROM articles a ${where} ORDER BY a.slug`,
+      args
+    });
+
+    return result.rows.map(row => row.slug as string);
+  }
+
+  it('should compile an empty filter to no conditions', () => {
+    expect(compileFilter({})).toEqual({ conditions: [], args: [] });
+    expect(compileFilter()).toEqual({ conditions: [], args: [] });
+  });
+
+  it('should match folder equality', async () => {
+    expect(await matchingSlugs({ folder: 'docs' })).toEqual(['docs/intro']);
+  });
+
+  it('should match folder prefix without sibling folders', async () => {
+    expect(await matchingSlugs({ folderPrefix: 'docs' })).toEqual([
+      'docs/api/search',
+      'docs/intro'
+    ]);
+  });
+
+  it('should escape LIKE wildcards in folder prefix', async () => {
+    expect(await matchingSlugs({ folderPrefix: 'doc%' })).toEqual([]);
+  });
+
+  it('should match any of the given tags', async () => {
+    expect(await matchingSlugs({ tags: { any: ['api', 'news'] } })).toEqual([
+      'blog/launch',
+      'docs/api/search'
+    ]);
+  });
+
+  it('should match all of the given tags', async () => {
+    expect(await matchingSlugs({ tags: { all: ['api', 'guide'] } })).toEqual(['docs/api/search']);
+  });
+
+  it('should match created_at ranges inclusively', async () => {
+    expect(await matchingSlugs({
+      createdAt: { from: '2024-01-10', to: new Date('2024-03-05T00:00:00Z') }
+    })).toEqual(['docs/api/search', 'docs/intro']);
+  });
+
+  it('should match updated_at ranges', async () => {
+    expect(await matchingSlugs({ updatedAt: { from: '2024-05-01' } })).toEqual(['blog/launch']);
+  });
+
+  it('should match published_at ranges', async () => {
+    await client.execute(`UPDATE articles SET published_at = '2024-02-01 00:00:00' WHERE slug = 'docs/intro'`);
+
+    expect(await matchingSlugs({ publishedAt: { from: '2024-01-01' } })).toEqual(['docs/intro']);
+  });
+
+  it('should match frontmatter values', async () => {
+    expect(await matchingSlugs({ metadata: { author: 'ana' } })).toEqual([
+      'blog/launch',
+      'docs/intro'
+    ]);
+    expect(await matchingSlugs({ metadata: { draft: true } })).toEqual(['docs/api/search']);
+  });
+
+  it('should match missing frontmatter keys with null', async () => {
+    expect(await matchingSlugs({ metadata: { draft: null } })).toEqual([
+      'blog/launch',
+      'docs-old/legacy'
+    ]);
+  });
+
+  it('should combine conditions with AND', async () => {
+    expect(await matchingSlugs({
+      folderPrefix: 'docs',
+      tags: { any: ['guide'] },
+      metadata: { draft: false }
+    })).toEqual(['docs/intro']);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { createTable, indexContent } from '../src/indexer.js';
+import { rollbackIndex } from '../src/generations.js';
+import { getIndexManifest } from '../src/manifest.js';
+import { search } from '../src/search.js';
+import type { Embedder } from '../src/embeddings.js';
+import { createLetterEmbedder } from './helpers.js';
+
+describe('generations', () => {
+  let client: ReturnType<typeof createClient>;
+  const testDir = join(process.cwd(), 'test-generations');
+
+  const provider = createLetterEmbedder();
+
+  const options = () => ({ client, contentPath: testDir, embeddingOptions: { provider }, chunking: true });
+
+  async function slugs(query: string): Promise<string[]> {
+    const results = await search({ client, query, embeddingOptions: { provider }, limit: 10 });
+    return results.map(result => result.slug).sort();
+  }
+
+  async function tables(): Promise<string[]> {
+    const result = await client.execute(
+      `SELECT name FROM sqlite_master WHERE type IN ('table', 'index') AND name LIKE 'articles%' ORDER BY name`
+    );
+    return result.rows.map(row => row.name as string);
+  }
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:' });
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa e');
+    await writeFile(join(testDir, 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+    await createTable(client, 'articles', 4, { chunks: true, fts: true });
+    await indexContent(options());
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep serving the live table during a re-index', async () => {
+    await rm(join(testDir, 'sky.md'));
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+
+    // Search from inside the run, while the new generation is being embedded
+    const during: string[][] = [];
+    const searching: Embedder = {
+      ...provider,
+      embedBatch: async texts => {
+        during.push(await slugs('a'));
+        return provider.embedBatch(texts);
+      }
+    };
+
+    await indexContent({ ...options(), embeddingOptions: { provider: searching } });
+
+    expect(during[0]).toEqual(['big', 'sky']);
+    expect(await slugs('a')).toEqual(['big', 'moon']);
+
+    const [chunk] = await search({ client, query: 'oooo', embeddingOptions: { provider }, chunks: true });
+    expect(chunk.slug).toBe('moon');
+
+    const [keyword] = await search({ client, query: 'oooo', embeddingOptions: { provider }, mode: 'hybrid' });
+    expect(keyword.slug).toBe('moon');
+  });
+
+  it('should leave the live table intact when a re-index fails', async () => {
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+
+    await expect(indexContent({
+      ...options(),
+      onProgress: (current, total) => {
+        if (current === total) {
+          throw new Error('Build cancelled');
+        }
+      }
+    })).rejects.toThrow('Build cancelled');
+
+    expect(await slugs('a')).toEqual(['big', 'sky']);
+
+    // The next run replaces the leftover staging tables
+    const result = await indexContent(options());
+    expect(result.added).toBe(3);
+    expect(await slugs('a')).toEqual(['big', 'moon', 'sky']);
+    expect(await tables()).not.toContain('articles_next');
+  });
+
+  it('should not swap in a re-index whose documents failed', async () => {
+    const failing: Embedder = {
+      ...provider,
+      embedBatch: async () => {
+        throw new Error('Provider unavailable');
+      }
+    };
+
+    await expect(indexContent({ ...options(), embeddingOptions: { provider: failing } }))
+      .rejects.toThrow('2 of 2 documents failed to index, so the re-index of articles was abandoned');
+
+    expect(await slugs('a')).toEqual(['big', 'sky']);
+    expect(await tables()).not.toContain('articles_next');
+    expect(await tables()).not.toContain('articles_previous');
+  });
+
+  it('should keep the previous generation and roll back to it', async () => {
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+    await indexContent(options());
+
+    expect(await tables()).toEqual(expect.arrayContaining([
+      'articles',
+      'articles_chunks',
+      'articles_embedding_idx',
+      'articles_chunks_embedding_idx',
+      'articles_previous',
+      'articles_previous_chunks',
+      'articles_previous_embedding_idx',
+      'articles_previous_fts',
+      'articles_previous_manifest'
+    ]));
+    expect(await tables()).not.toContain('articles_next');
+
+    await rollbackIndex(client);
+    expect(await slugs('a')).toEqual(['big', 'sky']);
+    expect((await getIndexManifest(client, 'articles'))?.modelId).toBe('fake:letters:4');
+
+    // Rolling back again restores the newer generation
+    await rollbackIndex(client);
+    expect(await slugs('a')).toEqual(['big', 'moon', 'sky']);
+  });
+
+  it('should refuse to swap generations the application refers to', async () => {
+    await client.execute('CREATE TABLE comments (id INTEGER PRIMARY KEY, article_id INTEGER REFERENCES articles(id))');
+    await client.execute('CREATE VIEW titles AS SELECT title FROM articles');
+
+    await expect(indexContent(options()))
+      .rejects.toThrow('comments (foreign key), titles (view) refer to it');
+    expect(await tables()).not.toContain('articles_next');
+
+    // Incremental runs update the rows in place and keep the references
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+    expect((await indexContent({ ...options(), incremental: true })).added).toBe(1);
+
+    const view = await client.execute(`SELECT sql FROM sqlite_master WHERE name = 'titles'`);
+    expect(view.rows[0].sql).toContain('FROM articles');
+    expect((await client.execute('SELECT COUNT(*) AS count FROM titles')).rows[0].count).toBe(3);
+  });
+
+  it('should rebuild in place with atomic: false', async () => {
+    await indexContent({ ...options(), atomic: false });
+
+    expect(await tables()).not.toContain('articles_previous');
+    await expect(rollbackIndex(client)).rejects.toThrow('No previous generation of articles to roll back to');
+  });
+
+  it('should update incrementally in place', async () => {
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+    const result = await indexContent({ ...options(), incremental: true });
+
+    expect(result.added).toBe(1);
+    expect(await tables()).not.toContain('articles_previous');
+  });
+});
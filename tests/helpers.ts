@@ -0,0 +1,31 @@
+import type { Embedder } from '../src/embeddings.js';
+
+export interface LetterEmbedderOptions {
+  /** Vector size, counting the first `dimensions` of a, e, o and u (default 4) */
+  dimensions?: number;
+  /** Collects every text sent to the embedder */
+  record?: string[];
+}
+
+/**
+ * Embedder whose vectors count the letters a, e, o and u, so documents about
+ * different letters are far apart and results are deterministic without a model
+ */
+export function createLetterEmbedder(options: LetterEmbedderOptions = {}): Embedder {
+  const { dimensions = 4, record } = options;
+  const embed = (text: string) => ['a', 'e', 'o', 'u'].slice(0, dimensions)
+    .map(letter => text.split(letter).length - 1);
+
+  return {
+    modelId: `fake:letters:${dimensions}`,
+    dimensions,
+    embed: async text => {
+      record?.push(text);
+      return embed(text);
+    },
+    embedBatch: async texts => {
+      record?.push(...texts);
+      return texts.map(embed);
+    }
+  };
+}
@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createClient } from '@libsql/client';
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
-import { createTable, indexContent } from '../src/indexer.js';
+import { createTable, getTableDimensions, indexContent, indexDocuments } from '../src/indexer.js';
+import { EmbeddingMismatchError, getIndexManifest } from '../src/manifest.js';
+import { findSimilar, search } from '../src/search.js';
+import type { Embedder } from '../src/embeddings.js';
+import { createMemoryCache } from '../src/cache.js';
+import { createLetterEmbedder } from './helpers.js';
 
 describe('indexer', () => {
   const testDbUrl = ':memory:';
@@ -44,6 +49,101 @@ describe('indexer', () => {
       expect(indexNames).toContain('articles_folder_idx');
     });
 
+    it('should add content_hash to tables created without it', async () => {
+      await client.execute(`
+        CREATE TABLE articles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          slug TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          folder TEXT NOT NULL DEFAULT 'root',
+          tags TEXT DEFAULT '[]',
+          embedding F32_BLOB(768),
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      await createTable(client, 'articles', 768);
+
+      const columns = await client.execute('PRAGMA table_info(articles)');
+      expect(columns.rows.map(row => row.name)).toContain('content_hash');
+    });
+
+    it('should create the chunks table when requested', async () => {
+      await createTable(client, 'articles', 768, { chunks: true });
+
+      const result = await client.execute(`
+        SELECT name FROM sqlite_master
+        WHERE type='table' AND name='articles_chunks'
+      `);
+
+      expect(result.rows).toHaveLength(1);
+    });
+
+    it('should create the full-text table when requested', async () => {
+      await createTable(client, 'articles', 768, { fts: true });
+
+      const result = await client.execute(`
+        SELECT sql FROM sqlite_master
+        WHERE type='table' AND name='articles_fts'
+      `);
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].sql).toContain('fts5');
+    });
+
+    it('should pass tuning parameters to the vector index', async () => {
+      await createTable(client, 'articles', 768, {
+        vectorIndex: { metric: 'cosine', compressNeighbors: 'float8', maxNeighbors: 20 }
+      });
+
+      const result = await client.execute(`
+        SELECT sql FROM sqlite_master
+        WHERE type='index' AND name='articles_embedding_idx'
+      `);
+
+      expect(result.rows[0].sql).toContain(
+        "libsql_vector_idx(embedding, 'metric=cosine', 'compress_neighbors=float8', 'max_neighbors=20')"
+      );
+    });
+
+    it('should reject invalid vector index parameters', async () => {
+      await expect(
+        createTable(client, 'articles', 768, { vectorIndex: { maxNeighbors: -1 } })
+      ).rejects.toThrow('maxNeighbors must be a positive integer');
+    });
+
+    it('should add metadata columns to tables created without them', async () => {
+      await client.execute(`
+        CREATE TABLE articles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          slug TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          folder TEXT NOT NULL DEFAULT 'root',
+          tags TEXT DEFAULT '[]',
+          embedding F32_BLOB(768),
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      await createTable(client, 'articles', 768);
+
+      const columns = await client.execute('PRAGMA table_info(articles)');
+      const names = columns.rows.map(row => row.name);
+      expect(names).toContain('metadata');
+      expect(names).toContain('description');
+      expect(names).toContain('published_at');
+    });
+
+    it('should size the table for the default local model', async () => {
+      await createTable(client);
+
+      expect(await getTableDimensions(client, 'articles')).toBe(384);
+    });
+
     it('should be idempotent (can be called multiple times)', async () => {
       await createTable(client);
       await createTable(client);
@@ -59,7 +159,7 @@ describe('indexer', () => {
 
   describe('indexContent', () => {
     beforeEach(async () => {
-      await createTable(client);
+      await createTable(client, 'articles', 768);
     });
 
     it('should index markdown files', async () => {
@@ -135,6 +235,27 @@ describe('indexer', () => {
       expect(tags).toEqual(['tag1', 'tag2', 'tag3']);
     }, 30000);
 
+    it('should persist frontmatter metadata and promoted columns', async () => {
+      await writeFile(
+        join(testDir, 'post.md'),
+        '---\ntitle: Post\ndescription: A short summary\ndate: 2024-05-01\nauthor: ana\ndraft: true\n---\n\nContent'
+      );
+
+      await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      const articles = await client.execute('SELECT metadata, description, published_at FROM articles');
+      const metadata = JSON.parse(articles.rows[0].metadata as string);
+
+      expect(metadata.author).toBe('ana');
+      expect(metadata.draft).toBe(true);
+      expect(articles.rows[0].description).toBe('A short summary');
+      expect(articles.rows[0].published_at).toBe('2024-05-01 00:00:00');
+    }, 30000);
+
     it('should handle files without frontmatter', async () => {
       await writeFile(join(testDir, 'no-frontmatter.md'), 'Just content');
 
@@ -173,6 +294,209 @@ describe('indexer', () => {
       expect(articles.rows[0].title).toBe('Second');
     }, 30000);
 
+    it('should report added documents on a full rebuild', async () => {
+      await writeFile(join(testDir, 'first.md'), '---\ntitle: First\n---\nContent');
+      await writeFile(join(testDir, 'second.md'), '---\ntitle: Second\n---\nContent');
+
+      const result = await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(result.added).toBe(2);
+      expect(result.updated).toBe(0);
+      expect(result.unchanged).toBe(0);
+      expect(result.deleted).toBe(0);
+    }, 30000);
+
+    it('should store a content hash for each document', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+
+      await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      const articles = await client.execute('SELECT content_hash FROM articles');
+      expect(articles.rows[0].content_hash).toMatch(/^[0-9a-f]{64}$/);
+    }, 30000);
+
+    it('should skip unchanged files when incremental', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true
+      };
+
+      const first = await indexContent(options);
+      expect(first.added).toBe(1);
+
+      const second = await indexContent(options);
+      expect(second.added).toBe(0);
+      expect(second.updated).toBe(0);
+      expect(second.unchanged).toBe(1);
+      expect(second.success).toBe(1);
+    }, 30000);
+
+    it('should update changed files when incremental', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nOriginal');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true
+      };
+
+      await indexContent(options);
+      const before = await client.execute('SELECT id, created_at FROM articles');
+
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nEdited');
+      const result = await indexContent(options);
+
+      expect(result.updated).toBe(1);
+      expect(result.unchanged).toBe(0);
+
+      const after = await client.execute('SELECT id, content, created_at FROM articles');
+      expect(after.rows).toHaveLength(1);
+      expect(after.rows[0].content).toBe('Edited');
+      expect(after.rows[0].id).toBe(before.rows[0].id);
+      expect(after.rows[0].created_at).toBe(before.rows[0].created_at);
+    }, 30000);
+
+    it('should update files whose frontmatter changed when incremental', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\ndraft: true\n---\nContent');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true
+      };
+
+      await indexContent(options);
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\ndraft: false\n---\nContent');
+      const result = await indexContent(options);
+
+      expect(result.updated).toBe(1);
+
+      const articles = await client.execute('SELECT metadata FROM articles');
+      expect(JSON.parse(articles.rows[0].metadata as string).draft).toBe(false);
+    }, 30000);
+
+    it('should remove rows for deleted files when incremental', async () => {
+      await writeFile(join(testDir, 'keep.md'), '---\ntitle: Keep\n---\nContent');
+      await writeFile(join(testDir, 'remove.md'), '---\ntitle: Remove\n---\nContent');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true
+      };
+
+      await indexContent(options);
+      await rm(join(testDir, 'remove.md'));
+
+      const result = await indexContent(options);
+
+      expect(result.deleted).toBe(1);
+      expect(result.unchanged).toBe(1);
+
+      const articles = await client.execute('SELECT slug FROM articles');
+      expect(articles.rows.map(row => row.slug)).toEqual(['keep']);
+    }, 30000);
+
+    it('should store one chunk row per passage when chunking', async () => {
+      await createTable(client, 'articles', 768, { chunks: true });
+      await writeFile(
+        join(testDir, 'guide.md'),
+        '---\ntitle: Guide\n---\n\n# Install\n\nRun the installer.\n\n# Usage\n\nCall search.'
+      );
+
+      await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local', dimensions: 768 },
+        chunking: { chunkSize: 200, chunkOverlap: 20 }
+      });
+
+      const chunks = await client.execute(`
+        SELECT c.heading, c.anchor, c.content, c.start_offset, c.end_offset, a.content as article
+        FROM articles_chunks c JOIN articles a ON a.id = c.article_id
+        ORDER BY c.chunk_index
+      `);
+
+      expect(chunks.rows.map(row => row.anchor)).toEqual(['install', 'usage']);
+      for (const row of chunks.rows) {
+        const article = row.article as string;
+        expect(article.slice(row.start_offset as number, row.end_offset as number)).toBe(row.content);
+      }
+    }, 30000);
+
+    it('should replace chunks when a file changes', async () => {
+      await createTable(client, 'articles', 768, { chunks: true });
+      await writeFile(join(testDir, 'guide.md'), '# One\n\nFirst\n\n# Two\n\nSecond');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true,
+        chunking: true
+      };
+
+      await indexContent(options);
+      await writeFile(join(testDir, 'guide.md'), '# One\n\nOnly');
+      await indexContent(options);
+
+      const chunks = await client.execute('SELECT content FROM articles_chunks');
+      expect(chunks.rows.map(row => row.content)).toEqual(['Only']);
+    }, 30000);
+
+    it('should keep the full-text table in sync', async () => {
+      await createTable(client, 'articles', 768, { fts: true });
+      await writeFile(join(testDir, 'keep.md'), '---\ntitle: Keep\ntags: [alpha]\n---\nOriginal');
+      await writeFile(join(testDir, 'remove.md'), '---\ntitle: Remove\n---\nContent');
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 },
+        incremental: true
+      };
+
+      await indexContent(options);
+      await writeFile(join(testDir, 'keep.md'), '---\ntitle: Keep\ntags: [alpha]\n---\nEdited');
+      await rm(join(testDir, 'remove.md'));
+      await indexContent(options);
+
+      const rows = await client.execute(`
+        SELECT a.slug, f.content, f.tags
+        FROM articles_fts f JOIN articles a ON a.id = f.rowid
+      `);
+      expect(rows.rows).toHaveLength(1);
+      expect(rows.rows[0].slug).toBe('keep');
+      expect(rows.rows[0].content).toBe('Edited');
+      expect(rows.rows[0].tags).toBe('alpha');
+    }, 30000);
+
+    it('should throw when chunking without the chunks table', async () => {
+      await writeFile(join(testDir, 'test.md'), 'Content');
+
+      await expect(indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local', dimensions: 768 },
+        chunking: true
+      })).rejects.toThrow('createTable with { chunks: true }');
+    });
+
     it('should exclude specified directories', async () => {
       await mkdir(join(testDir, 'node_modules'), { recursive: true });
       await writeFile(
@@ -211,6 +535,69 @@ describe('indexer', () => {
       });
     }, 30000);
 
+    it('should embed with a custom provider instance', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+      await createTable(client, 'small', 3);
+
+      const provider = {
+        modelId: 'fake:constant:3',
+        dimensions: 3,
+        embed: async () => [1, 0, 0],
+        embedBatch: async (texts: string[]) => texts.map(() => [0, 1, 0])
+      };
+
+      const result = await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        tableName: 'small'
+      });
+
+      expect(result.added).toBe(1);
+
+      const articles = await client.execute('SELECT vector_extract(embedding) AS embedding FROM small');
+      expect(JSON.parse(articles.rows[0].embedding as string)).toEqual([0, 1, 0]);
+    });
+
+    it('should embed documents and queries with their prefixes', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+      await createTable(client, 'small', 3);
+
+      const seen: string[] = [];
+      const provider: Embedder = {
+        modelId: 'fake:prefixed:3',
+        dimensions: 3,
+        queryPrefix: 'query: ',
+        documentPrefix: 'passage: ',
+        embed: async text => {
+          seen.push(text);
+          return [1, 0, 0];
+        },
+        embedBatch: async texts => {
+          seen.push(...texts);
+          return texts.map(() => [1, 0, 0]);
+        }
+      };
+
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider }, tableName: 'small' });
+      await search({ client, query: 'content', embeddingOptions: { provider }, tableName: 'small' });
+
+      expect(seen[0]).toMatch(/^passage: Test/);
+      expect(seen[seen.length - 1]).toBe('query: content');
+    });
+
+    it('should reject embeddings that do not fit the table', async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+
+      await expect(indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: 'local' }
+      })).rejects.toThrow(
+        'Table articles stores 768-dimension vectors but local:Xenova/all-MiniLM-L6-v2:384 produces 384'
+      );
+    });
+
     it('should return zero results for empty directory', async () => {
       const result = await indexContent({
         client,
@@ -223,4 +610,477 @@ describe('indexer', () => {
       expect(result.total).toBe(0);
     });
   });
+
+  describe('dimension reduction', () => {
+    // Native 4-dimension vectors from letter counts, so documents differ
+    const provider = createLetterEmbedder();
+
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'apples.md'), '---\ntitle: Apples\n---\naaaa aaa');
+      await writeFile(join(testDir, 'trees.md'), '---\ntitle: Trees\n---\neee eeee');
+      await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\nooo oooo');
+    });
+
+    it('should size the table from the embedding options', async () => {
+      await createTable(client, 'reduced', undefined, {
+        embeddingOptions: { provider, dimensions: 2, reduction: 'pca' }
+      });
+
+      expect(await getTableDimensions(client, 'reduced')).toBe(2);
+      expect(await getTableDimensions(client, 'missing')).toBeNull();
+    });
+
+    it('should fit and store a PCA projection', async () => {
+      const embeddingOptions = { provider, dimensions: 2, reduction: 'pca' as const };
+      await createTable(client, 'reduced', undefined, { embeddingOptions });
+
+      const result = await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions,
+        tableName: 'reduced'
+      });
+
+      expect(result.added).toBe(3);
+
+      const manifest = await getIndexManifest(client, 'reduced');
+      expect(manifest?.modelId).toBe('fake:letters:4>pca:2');
+      expect(manifest?.projection?.components).toHaveLength(2);
+      expect(manifest?.projection?.id).toMatch(/^[0-9a-f]{64}$/);
+      expect(await getIndexManifest(client, 'reduced', { projection: false }))
+        .toEqual({ ...manifest, projection: null });
+
+      const rows = await client.execute(
+        'SELECT vector_extract(embedding) AS embedding FROM reduced'
+      );
+      for (const row of rows.rows) {
+        const embedding = JSON.parse(row.embedding as string);
+        expect(embedding).toHaveLength(2);
+        expect(Math.hypot(...embedding)).toBeCloseTo(1, 5);
+      }
+
+      const [best] = await search({
+        client,
+        query: 'oooooo',
+        embeddingOptions,
+        tableName: 'reduced'
+      });
+      expect(best.slug).toBe('moon');
+    });
+
+    it('should reuse the stored projection when incremental', async () => {
+      const embeddingOptions = { provider, dimensions: 2, reduction: 'pca' as const };
+      await createTable(client, 'reduced', undefined, { embeddingOptions });
+
+      const options = {
+        client,
+        contentPath: testDir,
+        embeddingOptions,
+        tableName: 'reduced',
+        incremental: true
+      };
+
+      await indexContent(options);
+      const first = await getIndexManifest(client, 'reduced');
+
+      await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\nooo oooo uuu');
+      const result = await indexContent(options);
+
+      expect(result.updated).toBe(1);
+      expect((await getIndexManifest(client, 'reduced'))?.projection).toEqual(first?.projection);
+    });
+  });
+
+  describe('vector types', () => {
+    // Letter counts: both documents have the same signs, so 1-bit vectors tie
+    const provider = createLetterEmbedder();
+
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa e');
+      await writeFile(join(testDir, 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+    });
+
+    it('should store and search compressed vectors', async () => {
+      await createTable(client, 'articles', 4, { vectorType: 'F8', chunks: true });
+
+      const result = await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        chunking: true,
+        vectorType: 'F8'
+      });
+      expect(result.added).toBe(2);
+
+      const [best] = await search({ client, query: 'aaa', embeddingOptions: { provider }, limit: 1 });
+      expect(best.slug).toBe('big');
+
+      const [chunk] = await search({ client, query: 'eee', embeddingOptions: { provider }, chunks: true });
+      expect(chunk.slug).toBe('sky');
+    });
+
+    it('should rerank 1-bit candidates with full-precision vectors', async () => {
+      await createTable(client, 'articles', 4, { vectorType: 'F1BIT', rescore: true });
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider } });
+
+      const options = { client, query: 'aaa', embeddingOptions: { provider } };
+
+      const rescored = await search({ ...options, limit: 1 });
+      expect(rescored[0].slug).toBe('big');
+      expect(rescored[0].distance).toBeCloseTo(1 - 4 / Math.sqrt(17), 5);
+
+      const exact = await search({ ...options, exact: true });
+      expect(exact.map(result => result.slug)).toEqual(['big', 'sky']);
+
+      const compressed = await search({ ...options, rescore: false });
+      expect(compressed[0].distance).toBe(compressed[1].distance);
+      // Hamming distances are scored as the fraction of matching bits
+      expect(compressed[0].score).toBeCloseTo(1 - compressed[0].distance / 4);
+    });
+
+    it('should find similar articles with full-precision vectors', async () => {
+      await createTable(client, 'articles', 4, { vectorType: 'F1BIT', rescore: true });
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider } });
+
+      const [similar] = await findSimilar(client, 'big');
+
+      expect(similar.slug).toBe('sky');
+      expect(similar.distance).toBeCloseTo(1 - 8 / 17, 5);
+    });
+
+    it('should reject a table with a different vector type', async () => {
+      await createTable(client, 'articles', 4);
+
+      await expect(indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        vectorType: 'F16'
+      })).rejects.toThrow('Table articles stores F32 vectors, not F16');
+    });
+
+    it('should validate the storage options', async () => {
+      await expect(createTable(client, 'articles', 4, { vectorType: 'F4' as any }))
+        .rejects.toThrow('Unknown vector type: F4');
+      await expect(createTable(client, 'articles', 4, { rescore: true }))
+        .rejects.toThrow('rescore requires a compressed vectorType');
+    });
+  });
+
+  describe('embedding cache', () => {
+    // Records every text sent to the provider
+    const embedded: string[] = [];
+    const provider = createLetterEmbedder({ record: embedded });
+
+    beforeEach(async () => {
+      embedded.length = 0;
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa e');
+      await writeFile(join(testDir, 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+    });
+
+    it('should only embed texts missing from the cache', async () => {
+      const embeddingCache = createMemoryCache();
+      const options = { contentPath: testDir, embeddingOptions: { provider }, chunking: true, embeddingCache };
+
+      await createTable(client, 'articles', 4, { chunks: true });
+      await indexContent({ client, ...options });
+      const first = embedded.length;
+      expect(first).toBeGreaterThan(2);
+
+      // A fresh database, as for a preview build, with one changed file
+      const preview = createClient({ url: testDbUrl });
+      await createTable(preview, 'articles', 4, { chunks: true });
+      await writeFile(join(testDir, 'sky.md'), '---\ntitle: Sky\n---\na eeee ooo');
+
+      const result = await indexContent({ client: preview, ...options });
+
+      expect(result.added).toBe(2);
+      expect(embedded.slice(first).every(text => text.includes('ooo'))).toBe(true);
+      expect(embedded.length).toBeLessThan(first * 2);
+
+      const [best] = await search({ client: preview, query: 'ooo', embeddingOptions: { provider } });
+      expect(best.slug).toBe('sky');
+    });
+
+    it('should not share entries between models', async () => {
+      const embeddingCache = createMemoryCache();
+      const other: Embedder = { ...provider, modelId: 'fake:other:4' };
+
+      await createTable(client, 'articles', 4);
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider }, embeddingCache });
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider: other }, embeddingCache });
+
+      expect(embedded).toHaveLength(4);
+    });
+  });
+
+  describe('content loaders', () => {
+    const provider = createLetterEmbedder();
+
+    it('should index files through the loader for their extension', async () => {
+      await mkdir(join(testDir, 'guides'), { recursive: true });
+      await writeFile(join(testDir, 'guides', 'setup.mdx'), "import X from './x';\n\n# Setup\n\n<X>Install it</X>");
+      await writeFile(join(testDir, 'about.html'), '<title>About us</title><main><p>We write docs</p></main>');
+      await writeFile(join(testDir, 'notes.txt'), 'Plain notes');
+
+      await createTable(client, 'articles', 4);
+      const result = await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        fileExtensions: ['.mdx', '.html', '.txt']
+      });
+      expect(result.added).toBe(3);
+
+      const rows = await client.execute('SELECT slug, title, content FROM articles ORDER BY slug');
+      expect(rows.rows.map(row => [row.slug, row.title, row.content])).toEqual([
+        ['about', 'About us', 'We write docs'],
+        ['guides/setup', 'setup', '# Setup\n\nInstall it'],
+        ['notes', 'notes', 'Plain notes']
+      ]);
+    });
+
+    it('should reject extensions without a loader', async () => {
+      await createTable(client, 'articles', 4);
+
+      await expect(indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        fileExtensions: ['.docx']
+      })).rejects.toThrow('No content loader for .docx files');
+    });
+  });
+
+  describe('normalization', () => {
+    let embedded: string[] = [];
+    const provider: Embedder = {
+      modelId: 'fake:length:1',
+      dimensions: 1,
+      embed: async text => {
+        embedded.push(text);
+        return [text.length];
+      },
+      embedBatch: async texts => {
+        embedded.push(...texts);
+        return texts.map(text => [text.length]);
+      }
+    };
+
+    const markdown = 'See [the docs](https://example.com/docs).\n\n```ts\nconst a = 1;\n```';
+
+    beforeEach(async () => {
+      embedded = [];
+      await writeFile(join(testDir, 'page.md'), `---\ntitle: Page\n---\n${markdown}`);
+      await createTable(client, 'articles', 1, { chunks: true });
+    });
+
+    it('should embed plain text but store the markdown', async () => {
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider }, chunking: true });
+
+      expect(embedded).toHaveLength(2);
+      for (const text of embedded) {
+        expect(text).toContain('See the docs.');
+        expect(text).toContain('ts code:\nconst a = 1;');
+        expect(text).not.toContain('https://');
+      }
+
+      const rows = await client.execute('SELECT content FROM articles');
+      expect(String(rows.rows[0].content).trim()).toBe(markdown);
+    });
+
+    it('should embed the markdown with normalize: false', async () => {
+      await indexContent({ client, contentPath: testDir, embeddingOptions: { provider }, normalize: false });
+
+      expect(embedded[0]).toContain('https://example.com/docs');
+    });
+
+    it('should apply normalize options', async () => {
+      await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider },
+        normalize: { codeBlocks: 'strip' }
+      });
+
+      expect(embedded[0]).not.toContain('const a');
+    });
+  });
+
+  describe('paths', () => {
+    const embedded: string[] = [];
+    const provider = createLetterEmbedder({ record: embedded });
+
+    const options = () => ({ client, contentPath: testDir, embeddingOptions: { provider } });
+
+    async function slugs(): Promise<string[]> {
+      const result = await client.execute('SELECT slug FROM articles ORDER BY slug');
+      return result.rows.map(row => row.slug as string);
+    }
+
+    beforeEach(async () => {
+      await mkdir(join(testDir, 'guides'), { recursive: true });
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa e');
+      await writeFile(join(testDir, 'guides', 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+      await writeFile(join(testDir, 'guides', 'sea.md'), '---\ntitle: Sea\n---\neee a');
+      await createTable(client, 'articles', 4);
+      await indexContent(options());
+      embedded.length = 0;
+    });
+
+    it('should only read the listed files', async () => {
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa ooo');
+      await writeFile(join(testDir, 'guides', 'sky.md'), '---\ntitle: Sky\n---\nuuu');
+
+      const result = await indexContent({ ...options(), paths: ['big.md'] });
+
+      expect(result).toMatchObject({ total: 1, updated: 1, deleted: 0 });
+      expect(embedded).toHaveLength(1);
+      expect(await slugs()).toEqual(['big', 'guides/sea', 'guides/sky']);
+    });
+
+    it('should remove rows for missing files and directories', async () => {
+      await rm(join(testDir, 'big.md'));
+      await rm(join(testDir, 'guides'), { recursive: true });
+
+      const result = await indexContent({ ...options(), paths: ['big.md', 'small.md', 'guides'] });
+
+      expect(result).toMatchObject({ total: 0, deleted: 3 });
+      expect(await slugs()).toEqual([]);
+    });
+
+    it('should index every file under a directory', async () => {
+      await writeFile(join(testDir, 'guides', 'moon.md'), '---\ntitle: Moon\n---\noooo');
+      await rm(join(testDir, 'guides', 'sea.md'));
+
+      const result = await indexContent({ ...options(), paths: ['guides/'] });
+
+      expect(result).toMatchObject({ total: 2, added: 1, unchanged: 1, deleted: 1 });
+      expect(await slugs()).toEqual(['big', 'guides/moon', 'guides/sky']);
+    });
+
+    it('should refuse to mix models in a partial run', async () => {
+      const other = { ...createLetterEmbedder(), modelId: 'fake:other:4' };
+      const switched = { ...options(), embeddingOptions: { provider: other } };
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa ooo');
+
+      await expect(indexContent({ ...switched, paths: ['big.md'] }))
+        .rejects.toThrow(EmbeddingMismatchError);
+      await expect(indexContent({ ...switched, incremental: true }))
+        .rejects.toThrow('but updating it with fake:other:4');
+      expect((await getIndexManifest(client))?.modelId).toBe('fake:letters:4');
+
+      // A full re-index replaces every vector, and the manifest with them
+      expect((await indexContent(switched)).added).toBe(3);
+      expect((await getIndexManifest(client))?.modelId).toBe('fake:other:4');
+      expect((await indexContent({ ...switched, paths: ['big.md'] })).unchanged).toBe(1);
+    });
+
+    it('should reject paths outside the content directory', async () => {
+      await expect(indexContent({ ...options(), paths: ['../other.md'] }))
+        .rejects.toThrow('Path ../other.md is outside');
+    });
+  });
+
+  describe('content sources', () => {
+    const provider = createLetterEmbedder();
+
+    beforeEach(async () => {
+      await createTable(client, 'articles', 4);
+    });
+
+    it('should index documents yielded by a source', async () => {
+      // A headless CMS export, read lazily
+      const entries = [
+        { id: 'cms-1', slug: 'pricing', body: '# Pricing\n\naaaa', updated: '2024-03-01T10:00:00Z' },
+        { id: 'cms-2', slug: 'team/about', body: '# About\n\neeee', updated: '2024-04-01T10:00:00Z' }
+      ];
+      const source = {
+        async *documents() {
+          for (const entry of entries) {
+            yield { id: entry.id, path: `${entry.slug}.md`, raw: entry.body, lastModified: new Date(entry.updated) };
+          }
+        }
+      };
+      const progress: string[] = [];
+
+      const result = await indexContent({
+        client,
+        source,
+        embeddingOptions: { provider },
+        onProgress: (current, total, id) => progress.push(id)
+      });
+
+      expect(result.added).toBe(2);
+      expect(progress).toEqual(['cms-1', 'cms-2']);
+
+      const rows = await client.execute('SELECT slug, folder, updated_at FROM articles ORDER BY slug');
+      expect(rows.rows.map(row => ({ ...row }))).toEqual([
+        { slug: 'pricing', folder: 'root', updated_at: '2024-03-01 10:00:00' },
+        { slug: 'team/about', folder: 'team', updated_at: '2024-04-01 10:00:00' }
+      ]);
+    });
+
+    it('should index documents in hand', async () => {
+      const options = { embeddingOptions: { provider }, incremental: true };
+
+      await indexDocuments(client, [
+        { path: 'big.md', raw: '---\ntitle: Big\n---\naaaa e' },
+        { path: 'data/sky.json', raw: JSON.stringify({ title: 'Sky', content: 'a eeee' }) }
+      ], options);
+
+      const result = await indexDocuments(client, [
+        { path: 'data/sky.json', raw: JSON.stringify({ title: 'Sky', content: 'a eeee' }) }
+      ], options);
+
+      expect(result).toMatchObject({ unchanged: 1, deleted: 1 });
+
+      const [best] = await search({ client, query: 'eee', embeddingOptions: { provider } });
+      expect(best).toMatchObject({ slug: 'data/sky', title: 'Sky' });
+    });
+
+    it('should remove every row when an incremental run has no documents', async () => {
+      const options = { embeddingOptions: { provider }, incremental: true };
+      await indexDocuments(client, [{ path: 'big.md', raw: 'aaaa e' }], options);
+
+      const result = await indexDocuments(client, [], options);
+
+      expect(result).toMatchObject({ total: 0, deleted: 1 });
+      expect((await client.execute('SELECT slug FROM articles')).rows).toEqual([]);
+    });
+
+    it('should embed enough documents at once to fill every concurrent request', async () => {
+      const batches: number[] = [];
+      const batched: Embedder = {
+        ...provider,
+        batchSize: 40,
+        concurrency: 3,
+        embedBatch: async texts => {
+          batches.push(texts.length);
+          return provider.embedBatch(texts);
+        }
+      };
+      const documents = Array.from({ length: 120 }, (_, i) => ({ path: `page-${i}.md`, raw: 'aaaa e' }));
+
+      await indexDocuments(client, documents, { embeddingOptions: { provider: batched } });
+
+      expect(batches).toEqual([40, 40, 40]);
+    });
+
+    it('should fail documents without a content loader', async () => {
+      const result = await indexDocuments(client, [
+        { path: 'slides.key', raw: 'binary' },
+        { path: 'notes.md', raw: 'aaa' }
+      ], { embeddingOptions: { provider } });
+
+      expect(result).toMatchObject({ added: 1, failed: 1 });
+    });
+
+    it('should require a content path or source', async () => {
+      await expect(indexContent({ client, embeddingOptions: { provider } }))
+        .rejects.toThrow('indexContent needs a contentPath or a source');
+      await expect(indexContent({ client, source: { documents: () => [] }, paths: ['a.md'] }))
+        .rejects.toThrow('paths only applies to files under contentPath');
+    });
+  });
 });
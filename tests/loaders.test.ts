@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { getContentLoader, registerContentLoader } from '../src/loaders.js';
+
+describe('loaders', () => {
+  function load(extension: string, source: string) {
+    return getContentLoader(extension)!(source, { relativePath: `page${extension}` });
+  }
+
+  it('should read markdown frontmatter', async () => {
+    const loaded = await load('.md', '---\ntitle: Guide\ntags: [a]\n---\n# Intro\n\nText');
+
+    expect(loaded.metadata).toEqual({ title: 'Guide', tags: ['a'] });
+    expect(loaded.content.trim()).toBe('# Intro\n\nText');
+  });
+
+  it('should strip imports, exports and JSX from MDX', async () => {
+    const loaded = await load('.mdx', [
+      '---',
+      'title: Components',
+      '---',
+      "import { Callout } from '../components/Callout';",
+      'import {',
+      '  Tabs,',
+      '  Tab',
+      "} from '../components/Tabs';",
+      'export const meta = {',
+      "  draft: false",
+      '};',
+      '',
+      '# Using callouts',
+      '',
+      '{/* editor note */}',
+      '<Callout type="warning" onClose={() => close()}>',
+      '  Back up the **database** first.',
+      '</Callout>',
+      '',
+      '<Tabs.Group />',
+      '',
+      '```jsx',
+      "import { Callout } from './Callout';",
+      '<Callout>kept</Callout>',
+      '```'
+    ].join('\n'));
+
+    expect(loaded.metadata).toEqual({ title: 'Components' });
+    expect(loaded.content).toBe([
+      '# Using callouts',
+      '',
+      '  Back up the **database** first.',
+      '',
+      '```jsx',
+      "import { Callout } from './Callout';",
+      '<Callout>kept</Callout>',
+      '```'
+    ].join('\n'));
+  });
+
+  it('should extract the title, metadata and main text from HTML', async () => {
+    const loaded = await load('.html', `<!doctype html>
+      <html>
+        <head>
+          <title>Deploying &amp; Scaling</title>
+          <meta name="description" content="How to deploy">
+          <meta name="keywords" content="ops, deploy">
+          <meta property="article:published_time" content="2024-03-01">
+          <style>body { color: red; }</style>
+        </head>
+        <body>
+          <nav><a href="/">Home</a></nav>
+          <main>
+            <h1>Deploying</h1>
+            <p>Run the <code>build</code> step.<br>Then upload.</p>
+            <script>track();</script>
+            <ul><li>Fast</li><li>Cheap &#8212; mostly</li></ul>
+          </main>
+          <footer>Copyright</footer>
+        </body>
+      </html>`);
+
+    expect(loaded.title).toBe('Deploying & Scaling');
+    expect(loaded.metadata).toEqual({
+      description: 'How to deploy',
+      tags: ['ops', 'deploy'],
+      date: '2024-03-01'
+    });
+    expect(loaded.content).toBe(
+      '# Deploying\n\nRun the build step.\nThen upload.\n\n- Fast\n- Cheap — mostly'
+    );
+  });
+
+  it('should fall back to the body and first heading of HTML fragments', async () => {
+    const loaded = await load('.htm', '<header>Site</header><h1>Notes</h1><div>Body text</div>');
+
+    expect(loaded.title).toBe('Notes');
+    expect(loaded.content).toBe('# Notes\n\nBody text');
+  });
+
+  it('should load plain text as is', async () => {
+    expect(await load('.txt', 'Just text.\n')).toEqual({ content: 'Just text.\n' });
+  });
+
+  it('should load JSON and YAML data files', async () => {
+    const json = await load('.json', JSON.stringify({ title: 'Plan', body: 'Pricing details', tags: ['pricing'] }));
+    const yaml = await load('.yaml', 'title: Team\nrole: Maintainer\nbio: Writes docs\n');
+
+    expect(json).toEqual({ content: 'Pricing details', metadata: { title: 'Plan', tags: ['pricing'] } });
+    expect(yaml.content).toBe('Maintainer\n\nWrites docs');
+    expect(yaml.metadata).toEqual({ title: 'Team', role: 'Maintainer', bio: 'Writes docs' });
+    expect(() => load('.json', '[1, 2]')).toThrow('Data files must contain an object');
+  });
+
+  it('should convert reStructuredText sections and inline markup', async () => {
+    const loaded = await load('.rst', [
+      '=======',
+      'Install',
+      '=======',
+      '',
+      '.. note:: internal',
+      '',
+      'Run ``pip install`` or see `the docs <https://example.com>`_.',
+      '',
+      'Upgrading',
+      '---------',
+      '',
+      'Use :command:`pip install -U`.'
+    ].join('\n'));
+
+    expect(loaded.title).toBe('Install');
+    expect(loaded.content).toBe(
+      '# Install\n\nRun pip install or see the docs.\n\n## Upgrading\n\nUse pip install -U.'
+    );
+  });
+
+  it('should register custom loaders by extension', async () => {
+    registerContentLoader('.ADOC', source => ({ content: source.replace(/^= /, '# ') }));
+
+    expect(await load('.adoc', '= Title')).toEqual({ content: '# Title' });
+    expect(getContentLoader('.unknown')).toBeNull();
+    expect(() => registerContentLoader('adoc', source => ({ content: source })))
+      .toThrow("must look like '.ext'");
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { createTable, indexContent } from '../src/indexer.js';
+import { search } from '../src/search.js';
+import {
+  EmbeddingMismatchError,
+  getIndexManifest,
+  getManifestProjection,
+  writeManifest
+} from '../src/manifest.js';
+import type { Embedder } from '../src/embeddings.js';
+import { VERSION } from '../src/version.js';
+
+describe('manifest', () => {
+  const testDbUrl = ':memory:';
+  let client: ReturnType<typeof createClient>;
+  const testDir = join(process.cwd(), 'test-manifest');
+
+  function createFakeEmbedder(modelId: string, dimensions: number = 3): Embedder {
+    return {
+      modelId,
+      dimensions,
+      normalization: 'l2',
+      embed: async () => [1, 0, 0].slice(0, dimensions),
+      embedBatch: async texts => texts.map(() => [1, 0, 0].slice(0, dimensions))
+    };
+  }
+
+  beforeEach(async () => {
+    client = createClient({ url: testDbUrl });
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return null for tables without a manifest', async () => {
+    await createTable(client, 'articles', 3);
+
+    expect(await getIndexManifest(client, 'articles')).toBeNull();
+    expect(await getIndexManifest(client, 'missing')).toBeNull();
+  });
+
+  it('should record the model declared to createTable', async () => {
+    await createTable(client, 'articles', 768, {
+      embeddingOptions: { provider: 'openai', dimensions: 768 }
+    });
+
+    expect(await getIndexManifest(client, 'articles')).toEqual({
+      provider: 'openai',
+      modelId: 'openai:text-embedding-3-small:768',
+      dimensions: 768,
+      normalization: 'l2',
+      libraryVersion: VERSION,
+      indexedAt: null,
+      projection: null
+    });
+  });
+
+  it('should keep an existing manifest when createTable is called again', async () => {
+    await createTable(client, 'articles', 768, { embeddingOptions: { provider: 'gemini' } });
+    await createTable(client, 'articles', 768, { embeddingOptions: { provider: 'openai' } });
+
+    const manifest = await getIndexManifest(client, 'articles');
+    expect(manifest?.provider).toBe('gemini');
+  });
+
+  it('should record the model and time when indexing', async () => {
+    await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+    await createTable(client, 'articles', 3);
+
+    await indexContent({
+      client,
+      contentPath: testDir,
+      embeddingOptions: { provider: createFakeEmbedder('fake:one:3') }
+    });
+
+    const manifest = await getIndexManifest(client, 'articles');
+    expect(manifest).toMatchObject({
+      provider: 'custom',
+      modelId: 'fake:one:3',
+      dimensions: 3,
+      normalization: 'l2'
+    });
+    expect(manifest?.indexedAt).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+  });
+
+  describe('search validation', () => {
+    const indexedWith = createFakeEmbedder('fake:one:3');
+
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'test.md'), '---\ntitle: Test\n---\nContent');
+      await createTable(client, 'articles', 3);
+      await indexContent({
+        client,
+        contentPath: testDir,
+        embeddingOptions: { provider: indexedWith }
+      });
+    });
+
+    it('should search with the indexed model', async () => {
+      const results = await search({
+        client,
+        query: 'content',
+        embeddingOptions: { provider: indexedWith }
+      });
+
+      expect(results).toHaveLength(1);
+    });
+
+    it('should throw a typed error for a different model', async () => {
+      const error = await search({
+        client,
+        query: 'content',
+        embeddingOptions: { provider: createFakeEmbedder('fake:two:3') }
+      }).catch(error => error);
+
+      expect(error).toBeInstanceOf(EmbeddingMismatchError);
+      expect(error.message).toContain('indexed with fake:one:3 (3 dimensions)');
+      expect(error.message).toContain('searching with fake:two:3 (3 dimensions)');
+      expect(error.indexed.modelId).toBe('fake:one:3');
+      expect(error.requested).toEqual({ provider: 'custom', modelId: 'fake:two:3', dimensions: 3 });
+    });
+
+    it('should throw before embedding the query', async () => {
+      let embedded = false;
+      const provider = {
+        ...createFakeEmbedder('fake:two:3'),
+        embed: async () => {
+          embedded = true;
+          return [1, 0, 0];
+        }
+      };
+
+      await expect(
+        search({ client, query: 'content', embeddingOptions: { provider } })
+      ).rejects.toThrow(EmbeddingMismatchError);
+      expect(embedded).toBe(false);
+    });
+
+    it('should skip validation when disabled', async () => {
+      const results = await search({
+        client,
+        query: 'content',
+        embeddingOptions: { provider: createFakeEmbedder('fake:two:3') },
+        validateManifest: false
+      });
+
+      expect(results).toHaveLength(1);
+    });
+  });
+
+  it('should keep the parsed projection until the manifest is rewritten', async () => {
+    const embeddingOptions = { provider: createFakeEmbedder('fake:one:3') };
+    const projection = { mean: [0, 0, 0], components: [[1, 0, 0]] };
+    await createTable(client, 'articles', 3);
+    await writeManifest(client, 'articles', embeddingOptions, true, projection);
+
+    const manifest = (await getIndexManifest(client, 'articles', { projection: false }))!;
+    const first = await getManifestProjection(client, 'articles', manifest);
+    expect(first).toEqual(projection);
+
+    // Served from the cache while the manifest row is unchanged
+    await client.execute(`UPDATE articles_manifest SET projection = NULL`);
+    expect(await getManifestProjection(client, 'articles', manifest)).toBe(first);
+
+    const replaced = { ...projection, mean: [1, 0, 0] };
+    await writeManifest(client, 'articles', embeddingOptions, true, replaced);
+    expect(await getManifestProjection(client, 'articles', manifest)).toEqual(replaced);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { createTable, indexDocuments } from '../src/indexer.js';
+import { getSchemaVersion, migrate, SCHEMA_VERSION } from '../src/migrations.js';
+import { getIndexManifest } from '../src/manifest.js';
+import { search } from '../src/search.js';
+import { getVectorStorage } from '../src/vectors.js';
+import { createLetterEmbedder } from './helpers.js';
+
+describe('migrations', () => {
+  let client: ReturnType<typeof createClient>;
+  const fourLetters = createLetterEmbedder();
+  const threeLetters = createLetterEmbedder({ dimensions: 3 });
+
+  async function columns(table: string): Promise<string[]> {
+    const result = await client.execute(`PRAGMA table_info(${table})`);
+    return result.rows.map(row => row.name as string);
+  }
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+  });
+
+  it('should create a table from scratch', async () => {
+    const result = await migrate(client, { dimensions: 4 });
+
+    expect(result).toMatchObject({ fromVersion: 0, toVersion: SCHEMA_VERSION, resized: null, dryRun: false });
+    expect(result.applied.map(step => step.version)).toEqual([1, 2, 3, 4]);
+    expect(result.statements[0]).toMatch(/^CREATE TABLE articles \(/);
+    expect(await getSchemaVersion(client)).toBe(SCHEMA_VERSION);
+    expect((await getVectorStorage(client, 'articles'))?.dimensions).toBe(4);
+
+    await indexDocuments(client, [{ path: 'big.md', raw: 'aaaa e' }], { embeddingOptions: { provider: fourLetters } });
+    expect(await migrate(client)).toMatchObject({ applied: [], statements: [], toVersion: SCHEMA_VERSION });
+  });
+
+  it('should size a new table for the embedding options', async () => {
+    await migrate(client, { embeddingOptions: { provider: threeLetters } });
+
+    expect((await getVectorStorage(client, 'articles'))?.dimensions).toBe(3);
+  });
+
+  it('should upgrade a table created by an early version', async () => {
+    await client.execute(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        slug TEXT UNIQUE NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        folder TEXT NOT NULL DEFAULT 'root',
+        tags TEXT DEFAULT '[]',
+        embedding F32_BLOB(4),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    await client.execute(`CREATE INDEX articles_slug_idx ON articles(slug)`);
+    await client.execute(`
+      INSERT INTO articles (slug, title, content, embedding, created_at, updated_at)
+      VALUES ('big', 'Big', 'aaaa e', vector('[4, 1, 0, 0]'), datetime('now'), datetime('now'))
+    `);
+
+    const result = await migrate(client);
+
+    expect(result.statements).toEqual(expect.arrayContaining([
+      'CREATE INDEX articles_embedding_idx ON articles(libsql_vector_idx(embedding))',
+      'CREATE INDEX articles_folder_idx ON articles(folder)',
+      'ALTER TABLE articles ADD COLUMN content_hash TEXT',
+      "ALTER TABLE articles ADD COLUMN metadata TEXT DEFAULT '{}'"
+    ]));
+    expect(result.statements.join('\n')).not.toContain('articles_slug_idx');
+    expect(await columns('articles')).toEqual(expect.arrayContaining(['content_hash', 'metadata', 'published_at']));
+    expect(await columns('articles_manifest')).toContain('projection');
+
+    const [best] = await search({ client, query: 'aaaa', embeddingOptions: { provider: fourLetters } });
+    expect(best).toMatchObject({ slug: 'big', metadata: {} });
+  });
+
+  it('should only print the SQL in a dry run', async () => {
+    await client.execute(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        slug TEXT UNIQUE NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        embedding F32_BLOB(4),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    const result = await migrate(client, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.statements).toContain('ALTER TABLE articles ADD COLUMN content_hash TEXT');
+    expect(result.statements.at(-1)).toMatch(/^INSERT OR IGNORE INTO articles_migrations/);
+    expect(await getSchemaVersion(client)).toBe(0);
+    expect(await columns('articles')).not.toContain('content_hash');
+  });
+
+  it('should record the current version in createTable', async () => {
+    await createTable(client, 'articles', 4);
+
+    expect(await getSchemaVersion(client)).toBe(SCHEMA_VERSION);
+    expect((await migrate(client)).statements).toEqual([]);
+  });
+
+  it('should re-create the vectors and re-embed when the dimensions change', async () => {
+    await createTable(client, 'articles', 4, {
+      chunks: true,
+      vectorType: 'F16',
+      rescore: true,
+      vectorIndex: { metric: 'cosine' }
+    });
+    await indexDocuments(client, [
+      { path: 'big.md', raw: '---\ntitle: Big\n---\naaaa e' },
+      { path: 'sky.md', raw: '---\ntitle: Sky\n---\na eeee\n\n## Moon\n\neee' }
+    ], { embeddingOptions: { provider: fourLetters }, chunking: { chunkSize: 10, chunkOverlap: 0 } });
+
+    const preview = await migrate(client, { dimensions: 3, embeddingOptions: { provider: threeLetters }, dryRun: true });
+    expect(preview.resized).toEqual({ from: 4, to: 3 });
+    expect(preview.statements).toEqual(expect.arrayContaining([
+      'DROP INDEX IF EXISTS articles_embedding_idx',
+      'ALTER TABLE articles DROP COLUMN embedding',
+      'ALTER TABLE articles ADD COLUMN embedding F16_BLOB(3)',
+      'ALTER TABLE articles ADD COLUMN embedding_full F32_BLOB(3)',
+      'ALTER TABLE articles_chunks ADD COLUMN embedding F16_BLOB(3)'
+    ]));
+    expect((await getVectorStorage(client, 'articles'))?.dimensions).toBe(4);
+
+    const result = await migrate(client, { dimensions: 3, embeddingOptions: { provider: threeLetters } });
+    expect(result.reembedded).toBeGreaterThan(2);
+
+    expect(await getVectorStorage(client, 'articles')).toEqual({ type: 'F16', dimensions: 3, rescore: true });
+    expect((await getIndexManifest(client))?.modelId).toBe('fake:letters:3');
+
+    const index = await client.execute(`SELECT sql FROM sqlite_master WHERE name = 'articles_embedding_idx'`);
+    expect(index.rows[0].sql).toContain("'metric=cosine'");
+
+    const hashes = await client.execute('SELECT content_hash FROM articles');
+    expect(hashes.rows.every(row => row.content_hash === null)).toBe(true);
+
+    const embeddingOptions = { provider: threeLetters };
+    expect((await search({ client, query: 'eeee', embeddingOptions }))[0].slug).toBe('sky');
+    expect((await search({ client, query: 'eeee', embeddingOptions, chunks: true }))[0].slug).toBe('sky');
+  });
+
+  it('should leave the vectors in place when re-embedding fails', async () => {
+    await createTable(client, 'articles', 4);
+    await indexDocuments(client, [{ path: 'big.md', raw: 'aaaa e' }], { embeddingOptions: { provider: fourLetters } });
+    const failing = {
+      ...threeLetters,
+      embedBatch: async () => {
+        throw new Error('Provider unavailable');
+      }
+    };
+
+    await expect(migrate(client, { dimensions: 3, embeddingOptions: { provider: failing } }))
+      .rejects.toThrow('Provider unavailable');
+
+    expect((await getVectorStorage(client, 'articles'))?.dimensions).toBe(4);
+    expect((await getIndexManifest(client))?.modelId).toBe('fake:letters:4');
+    expect((await search({ client, query: 'aaaa', embeddingOptions: { provider: fourLetters } }))[0].slug)
+      .toBe('big');
+  });
+
+  it('should re-embed tables of an early version while upgrading them', async () => {
+    await client.execute(`
+      CREATE TABLE articles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        slug TEXT UNIQUE NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        embedding F32_BLOB(4),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    await client.execute(`
+      INSERT INTO articles (slug, title, content, embedding, created_at, updated_at)
+      VALUES ('big', 'Big', 'aaaa e', vector('[4, 1, 0, 0]'), datetime('now'), datetime('now'))
+    `);
+
+    const result = await migrate(client, { dimensions: 3, embeddingOptions: { provider: threeLetters } });
+
+    expect(result).toMatchObject({ toVersion: SCHEMA_VERSION, resized: { from: 4, to: 3 }, reembedded: 1 });
+    expect((await getIndexManifest(client))?.modelId).toBe('fake:letters:3');
+    expect((await search({ client, query: 'aaaa', embeddingOptions: { provider: threeLetters } }))[0].slug)
+      .toBe('big');
+  });
+
+  it('should refuse to drop vectors it cannot re-embed', async () => {
+    await createTable(client, 'articles', 4);
+
+    await expect(migrate(client, { dimensions: 3, embeddingOptions: { provider: fourLetters, dimensions: 4 } }))
+      .rejects.toThrow('Re-embedding at 3 dimensions needs embeddingOptions that produce them');
+    expect((await getVectorStorage(client, 'articles'))?.dimensions).toBe(4);
+  });
+
+  it('should refuse tables from a newer version', async () => {
+    await createTable(client, 'articles', 4);
+    await client.execute(
+      `INSERT INTO articles_migrations (version, description, applied_at) VALUES (99, 'Future', datetime('now'))`
+    );
+
+    await expect(migrate(client)).rejects.toThrow('Table articles is at schema version 99');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeMarkdown } from '../src/normalize.js';
+
+describe('normalize', () => {
+  it('should keep link and image text but drop URLs', () => {
+    const text = normalizeMarkdown([
+      'See [the guide](https://example.com/guide) and ![a diagram](/img/flow.png).',
+      'Or visit <https://example.com> or https://example.org/docs directly.',
+      'Read [the spec][spec].',
+      '',
+      '[spec]: https://example.com/spec'
+    ].join('\n'));
+
+    expect(text).toBe('See the guide and a diagram.\nOr visit or directly.\nRead the spec.');
+  });
+
+  it('should summarize code blocks by default', () => {
+    const markdown = 'Install it:\n\n```bash\nnpm install libsql-search\n\nnpm run build\nnpm test\nnpm publish\n```\n\nDone.';
+
+    expect(normalizeMarkdown(markdown)).toBe(
+      'Install it:\n\nbash code:\nnpm install libsql-search\nnpm run build\nnpm test\n\nDone.'
+    );
+    expect(normalizeMarkdown(markdown, { codeBlocks: 'strip' })).toBe('Install it:\n\nDone.');
+    expect(normalizeMarkdown(markdown, { codeLines: 1 })).toContain('bash code:\nnpm install libsql-search\n\nDone.');
+    expect(normalizeMarkdown('~~~\n<div>**x**</div>\n~~~', { codeBlocks: 'keep' })).toBe('<div>**x**</div>');
+  });
+
+  it('should remove HTML, comments, shortcodes and admonition syntax', () => {
+    const text = normalizeMarkdown([
+      '<!-- draft note -->',
+      '<div class="note">Styled <strong>text</strong></div>',
+      '{{< youtube id="abc" >}}',
+      '{% include "footer.html" %}',
+      '',
+      ':::warning[Careful]',
+      'Back up first.',
+      ':::',
+      '',
+      '!!! tip "Pro tip"',
+      '    Use indexes.',
+      '',
+      '> [!NOTE]',
+      '> Quoted note.'
+    ].join('\n'));
+
+    expect(text).toBe('Styled text\n\nCareful\nBack up first.\n\nPro tip\nUse indexes.\n\nQuoted note.');
+  });
+
+  it('should flatten tables, headings, lists and inline markup', () => {
+    const text = normalizeMarkdown([
+      '## Options ##',
+      '',
+      '| Name | Default |',
+      '|------|:-------:|',
+      '| `limit` | 10 |',
+      '',
+      '- **Fast** and *simple*',
+      '1. Uses ~~old~~ new_api_name',
+      '',
+      '---'
+    ].join('\n'));
+
+    expect(text).toBe('Options\n\nName, Default\nlimit, 10\n\nFast and simple\nUses old new_api_name');
+  });
+
+  it('should run custom transforms after the built-in steps', () => {
+    const text = normalizeMarkdown('# Title\n\nSome TODO text', {
+      transforms: [value => value.replace(/TODO/g, ''), value => value.toUpperCase()]
+    });
+
+    expect(text).toBe('TITLE\n\nSOME  TEXT');
+  });
+
+  it('should reject invalid codeLines', () => {
+    expect(() => normalizeMarkdown('text', { codeLines: -1 })).toThrow('codeLines must be a non-negative integer');
+  });
+});
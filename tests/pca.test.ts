@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { fitPca, normalizeVector, projectPca } from '../src/pca.js';
+
+describe('pca', () => {
+  // Uncorrelated spread: mostly along x, less along y and barely along z
+  const vectors = Array.from({ length: 10 }, (_, i) => i / 9 - 0.5).flatMap(t => [
+    [10 * t, 3, 0.1],
+    [10 * t, -3, 0.1],
+    [10 * t, 3, -0.1],
+    [10 * t, -3, -0.1]
+  ]);
+
+  describe('fitPca', () => {
+    it('should find components in order of variance', () => {
+      const { mean, components } = fitPca(vectors, 2);
+
+      expect(mean).toHaveLength(3);
+      expect(mean[0]).toBeCloseTo(0, 10);
+      expect(components).toHaveLength(2);
+      expect(Math.abs(components[0][0])).toBeCloseTo(1, 3);
+      expect(Math.abs(components[1][1])).toBeCloseTo(1, 3);
+    });
+
+    it('should return orthonormal components', () => {
+      const { components } = fitPca(vectors, 3);
+
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          const dot = components[i].reduce((sum, value, k) => sum + value * components[j][k], 0);
+          expect(dot).toBeCloseTo(i === j ? 1 : 0, 8);
+        }
+      }
+    });
+
+    it('should be deterministic', () => {
+      expect(fitPca(vectors, 2)).toEqual(fitPca(vectors, 2));
+    });
+
+    it('should handle fewer vectors than dimensions', () => {
+      const { components } = fitPca([[1, 0, 0, 0], [0, 1, 0, 0]], 3);
+
+      expect(components).toHaveLength(3);
+      expect(components.every(component => component.every(Number.isFinite))).toBe(true);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => fitPca([[1, 2]], 1)).toThrow('at least 2 vectors');
+      expect(() => fitPca(vectors, 4)).toThrow('between 1 and 3');
+      expect(() => fitPca(vectors, 0)).toThrow('between 1 and 3');
+      expect(() => fitPca([[1, 2], [1, 2, 3]], 1)).toThrow('same length');
+    });
+  });
+
+  describe('projectPca', () => {
+    it('should project to unit vectors of the fitted size', () => {
+      const projection = fitPca(vectors, 2);
+      const projected = projectPca(projection, [4, 1, 0]);
+
+      expect(projected).toHaveLength(2);
+      expect(Math.hypot(...projected)).toBeCloseTo(1, 10);
+    });
+
+    it('should keep nearby vectors close', () => {
+      const projection = fitPca(vectors, 2);
+      const a = projectPca(projection, [4, 1, 0]);
+      const b = projectPca(projection, [4.2, 1.1, 0.05]);
+      const c = projectPca(projection, [-4, -1, 0]);
+
+      const similarity = (x: number[], y: number[]) => x[0] * y[0] + x[1] * y[1];
+      expect(similarity(a, b)).toBeGreaterThan(0.99);
+      expect(similarity(a, c)).toBeLessThan(0);
+    });
+
+    it('should reject vectors of the wrong size', () => {
+      expect(() => projectPca(fitPca(vectors, 2), [1, 2])).toThrow('expects 3-dimension vectors');
+    });
+  });
+
+  describe('normalizeVector', () => {
+    it('should scale to unit length and leave zero vectors alone', () => {
+      expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+      expect(normalizeVector([0, 0])).toEqual([0, 0]);
+    });
+  });
+});
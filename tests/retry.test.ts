@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EmbeddingApiError,
+  createRateLimiter,
+  isRetryable,
+  mapConcurrent,
+  parseRetryAfter,
+  withRetry
+} from '../src/retry.js';
+
+describe('retry', () => {
+  describe('withRetry', () => {
+    it('should retry rate-limit and server errors until success', async () => {
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new EmbeddingApiError('rate limited', 429))
+        .mockRejectedValueOnce(new EmbeddingApiError('unavailable', 503))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(fn, { retryDelay: 1 })).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const fn = vi.fn().mockRejectedValue(new EmbeddingApiError('rate limited', 429));
+
+      await expect(withRetry(fn, { maxRetries: 2, retryDelay: 1 })).rejects.toThrow('rate limited');
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry other errors', async () => {
+      const fn = vi.fn().mockRejectedValue(new Error('OPENAI_API_KEY is required'));
+
+      await expect(withRetry(fn, { retryDelay: 1 })).rejects.toThrow('OPENAI_API_KEY is required');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for retryAfter when provided', async () => {
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new EmbeddingApiError('rate limited', 429, 50))
+        .mockResolvedValue('ok');
+
+      const started = Date.now();
+      await withRetry(fn, { retryDelay: 1 });
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should cap retryAfter at maxRetryDelay', async () => {
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new EmbeddingApiError('rate limited', 429, 60000))
+        .mockResolvedValue('ok');
+
+      const started = Date.now();
+      expect(await withRetry(fn, { maxRetryDelay: 10 })).toBe('ok');
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should accept 429 and 5xx statuses only', () => {
+      expect(isRetryable(new EmbeddingApiError('', 429))).toBe(true);
+      expect(isRetryable(new EmbeddingApiError('', 500))).toBe(true);
+      expect(isRetryable(new EmbeddingApiError('', 400))).toBe(false);
+      expect(isRetryable(new Error('network'))).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 10000).toUTCString();
+      const delay = parseRetryAfter(date)!;
+
+      expect(delay).toBeGreaterThan(8000);
+      expect(delay).toBeLessThanOrEqual(10000);
+    });
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('mapConcurrent', () => {
+    it('should preserve order and limit calls in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async (delay, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        inFlight--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should handle an empty list', async () => {
+      expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+    });
+  });
+
+  describe('createRateLimiter', () => {
+    it('should space out calls', async () => {
+      const limiter = createRateLimiter(1200); // one call every 50ms
+
+      const started = Date.now();
+      await limiter.acquire();
+      await limiter.acquire();
+      await limiter.acquire();
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { createTable, indexContent } from '../src/indexer.js';
+import { search, findSimilar, getAllArticles, getArticleBySlug, getFolders } from '../src/search.js';
+import { checkSchema, resolveSchema, validateSchema, SchemaError, type TableSchema } from '../src/schema.js';
+import { createLetterEmbedder } from './helpers.js';
+
+describe('schema', () => {
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+  });
+
+  describe('resolveSchema', () => {
+    it('should default every field to its own column', () => {
+      const { columns, extraColumns } = resolveSchema();
+
+      expect(columns.slug).toBe('slug');
+      expect(columns.embedding_full).toBe('embedding_full');
+      expect(extraColumns).toEqual([]);
+    });
+
+    it('should map fields and fill in extra column defaults', () => {
+      const { columns, extraColumns } = resolveSchema({
+        columns: { slug: 'path', tags: null },
+        extraColumns: { author: {}, rating: { type: 'INTEGER', field: 'stars' } }
+      });
+
+      expect(columns.slug).toBe('path');
+      expect(columns.tags).toBeNull();
+      expect(extraColumns).toEqual([
+        { column: 'author', type: 'TEXT', field: 'author' },
+        { column: 'rating', type: 'INTEGER', field: 'stars' }
+      ]);
+    });
+
+    it('should reject invalid mappings', () => {
+      expect(() => resolveSchema({ columns: { slug: null } })).toThrow('The slug field needs a column');
+      expect(() => resolveSchema({ columns: { title: 'title; DROP TABLE x' } })).toThrow('Invalid column name');
+      expect(() => resolveSchema({ columns: { body: 'text' } as any })).toThrow('Unknown schema field: body');
+      expect(() => resolveSchema({ columns: { title: 'content' } }))
+        .toThrow('Column content is mapped to more than one field');
+      expect(() => resolveSchema({ extraColumns: { slug: {} } })).toThrow('Extra column slug is already mapped');
+    });
+  });
+
+  describe('checkSchema', () => {
+    it('should accept tables made by createTable', async () => {
+      await createTable(client, 'articles', 4);
+      expect(await checkSchema(client, 'articles')).toEqual([]);
+    });
+
+    it('should report a missing table', async () => {
+      expect(await checkSchema(client, 'posts')).toEqual(['Table posts does not exist']);
+    });
+
+    it('should report missing, mistyped and non-unique columns', async () => {
+      await client.execute(`
+        CREATE TABLE posts (
+          id INTEGER PRIMARY KEY,
+          path TEXT NOT NULL,
+          title INTEGER,
+          body TEXT,
+          embedding BLOB
+        )
+      `);
+
+      const issues = await checkSchema(client, 'posts', {
+        columns: { slug: 'path', content: 'body', folder: 'category' },
+        extraColumns: { author: {} }
+      });
+
+      expect(issues).toEqual(expect.arrayContaining([
+        'Column title (title) has type INTEGER, expected TEXT',
+        'Column category (folder) is missing',
+        'Column tags (tags) is missing',
+        'Column embedding (embedding) must be a vector column such as F32_BLOB(768), not BLOB',
+        'Column path (slug) needs a UNIQUE constraint or index',
+        'Extra column author is missing'
+      ]));
+      expect(issues).not.toContain('Column embedding_full (embedding_full) is missing');
+    });
+
+    it('should throw a SchemaError listing the issues', async () => {
+      await client.execute('CREATE TABLE posts (id INTEGER PRIMARY KEY, slug TEXT UNIQUE)');
+
+      const error = await validateSchema(client, 'posts').catch(error => error);
+      expect(error).toBeInstanceOf(SchemaError);
+      expect(error.tableName).toBe('posts');
+      expect(error.issues).toContain('Column title (title) is missing');
+      expect(error.message).toContain('Table posts does not match its schema:\n- ');
+    });
+  });
+
+  describe('existing tables', () => {
+    const testDir = join(process.cwd(), 'test-schema');
+
+    const provider = createLetterEmbedder();
+
+    const schema: TableSchema = {
+      columns: {
+        slug: 'path',
+        content: 'body',
+        folder: 'category',
+        tags: null,
+        metadata: null,
+        description: null,
+        published_at: null
+      },
+      extraColumns: { author: {} }
+    };
+
+    beforeEach(async () => {
+      await client.execute(`
+        CREATE TABLE posts (
+          id INTEGER PRIMARY KEY,
+          path TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          body TEXT NOT NULL,
+          category TEXT,
+          created_at TEXT,
+          updated_at TEXT
+        )
+      `);
+      await mkdir(join(testDir, 'news'), { recursive: true });
+      await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\nauthor: Ada\n---\naaaa e');
+      await writeFile(join(testDir, 'news', 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    const options = () => ({ client, contentPath: testDir, tableName: 'posts', schema, embeddingOptions: { provider } });
+
+    it('should refuse to index a table that does not match', async () => {
+      await expect(indexContent(options())).rejects.toThrow(SchemaError);
+    });
+
+    it('should add the missing columns and index into the mapped ones', async () => {
+      await createTable(client, 'posts', 4, { schema, chunks: true, fts: true });
+      expect(await checkSchema(client, 'posts', schema)).toEqual([]);
+
+      const result = await indexContent({ ...options(), chunking: true });
+      expect(result.added).toBe(2);
+
+      const rows = await client.execute('SELECT path, body, category, author FROM posts ORDER BY path');
+      expect(rows.rows.map(row => ({ ...row }))).toEqual([
+        { path: 'big', body: 'aaaa e', category: 'root', author: 'Ada' },
+        { path: 'news/sky', body: 'a eeee', category: 'news', author: null }
+      ]);
+
+      // A full re-index swaps in a staged generation of the same shape
+      expect((await indexContent(options())).added).toBe(2);
+    });
+
+    it('should search and read through the mapping', async () => {
+      await createTable(client, 'posts', 4, { schema, chunks: true, fts: true });
+      await indexContent({ ...options(), chunking: true });
+      const searchOptions = { client, tableName: 'posts', schema, embeddingOptions: { provider } };
+
+      const [best] = await search({ ...searchOptions, query: 'aaaa' });
+      expect(best).toMatchObject({
+        slug: 'big',
+        content: 'aaaa e',
+        folder: 'root',
+        tags: [],
+        metadata: {},
+        description: null,
+        extra: { author: 'Ada' }
+      });
+
+      const [chunk] = await search({ ...searchOptions, query: 'eeee', chunks: true });
+      expect(chunk.slug).toBe('news/sky');
+
+      const [keyword] = await search({ ...searchOptions, query: 'eeee', mode: 'hybrid' });
+      expect(keyword.slug).toBe('news/sky');
+
+      const [filtered] = await search({ ...searchOptions, query: 'aaaa', filter: { folder: 'news' } });
+      expect(filtered.slug).toBe('news/sky');
+
+      await expect(search({ ...searchOptions, query: 'aaaa', filter: { tags: { any: ['x'] } } }))
+        .rejects.toThrow('Filtering by tags requires a tags column');
+
+      expect((await findSimilar(client, 'big', { tableName: 'posts', schema })).map(result => result.slug))
+        .toEqual(['news/sky']);
+      expect((await getAllArticles(client, 'posts', schema)).map(article => article.extra))
+        .toEqual([{ author: 'Ada' }, { author: null }]);
+      expect(await getArticleBySlug(client, 'news/sky', 'posts', schema))
+        .toMatchObject({ content: 'a eeee', folder: 'news' });
+      expect(await getFolders(client, 'posts', schema)).toEqual(['news', 'root']);
+    });
+  });
+});
@@ -3,12 +3,16 @@ import { createClient } from '@libsql/client';
 import { createTable } from '../src/indexer.js';
 import {
   search,
+  searchPage,
+  findSimilar,
   getAllArticles,
   getArticleBySlug,
   getArticlesByFolder,
   getFolders
 } from '../src/search.js';
-import { generateEmbedding } from '../src/embeddings.js';
+import { generateEmbedding, type Embedder } from '../src/embeddings.js';
+import { createMemoryCache } from '../src/cache.js';
+import { createLetterEmbedder } from './helpers.js';
 
 describe('search', () => {
   const testDbUrl = ':memory:';
@@ -16,7 +20,7 @@ describe('search', () => {
 
   beforeEach(async () => {
     client = createClient({ url: testDbUrl });
-    await createTable(client);
+    await createTable(client, 'articles', 768, { chunks: true, fts: true });
   });
 
   async function insertTestArticle(data: {
@@ -25,25 +29,63 @@ describe('search', () => {
     content: string;
     folder?: string;
     tags?: string[];
+    metadata?: Record<string, any>;
+    description?: string;
   }) {
     const embedding = await generateEmbedding(data.content, {
       provider: 'local',
       dimensions: 768
     });
 
-    await client.execute({
+    const result = await client.execute({
       sql: `INSERT INTO articles
-            (slug, title, content, folder, tags, embedding, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, vector(?), datetime('now'), datetime('now'))`,
+            (slug, title, content, folder, tags, metadata, description, embedding, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, vector(?), datetime('now'), datetime('now'))`,
       args: [
         data.slug,
         data.title,
         data.content,
         data.folder || 'root',
         JSON.stringify(data.tags || []),
+        JSON.stringify(data.metadata || {}),
+        data.description ?? null,
         JSON.stringify(embedding)
       ]
     });
+
+    await client.execute({
+      sql: `INSERT INTO articles_fts (rowid, title, content, tags) VALUES (?, ?, ?, ?)`,
+      args: [result.lastInsertRowid!, data.title, data.content, (data.tags || []).join(' ')]
+    });
+  }
+
+  async function insertTestChunk(data: {
+    slug: string;
+    index: number;
+    heading: string;
+    content: string;
+    start: number;
+  }) {
+    const embedding = await generateEmbedding(data.content, {
+      provider: 'local',
+      dimensions: 768
+    });
+
+    await client.execute({
+      sql: `INSERT INTO articles_chunks
+            (article_id, chunk_index, heading, anchor, content, start_offset, end_offset, embedding)
+            SELECT id, ?, ?, ?, ?, ?, ?, vector(?) FROM articles WHERE slug = ?`,
+      args: [
+        data.index,
+        data.heading,
+        data.heading.toLowerCase(),
+        data.content,
+        data.start,
+        data.start + data.content.length,
+        JSON.stringify(embedding),
+        data.slug
+      ]
+    });
   }
 
   describe('search', () => {
@@ -143,6 +185,26 @@ describe('search', () => {
       expect(results[0].tags).toEqual(['tag1', 'tag2']);
     }, 30000);
 
+    it('should return frontmatter metadata', async () => {
+      await insertTestArticle({
+        slug: 'post',
+        title: 'Post',
+        content: 'Content',
+        metadata: { author: 'ana', image: '/cover.png' },
+        description: 'Summary'
+      });
+
+      const results = await search({
+        client,
+        query: 'content',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results[0].metadata).toEqual({ author: 'ana', image: '/cover.png' });
+      expect(results[0].description).toBe('Summary');
+      expect(results[0].published_at).toBeNull();
+    }, 30000);
+
     it('should return empty array when no articles exist', async () => {
       const results = await search({
         client,
@@ -154,6 +216,523 @@ describe('search', () => {
     }, 30000);
   });
 
+  describe('search with filters', () => {
+    it('should apply the filter before the limit', async () => {
+      await insertTestArticle({
+        slug: 'blog/astro',
+        title: 'Astro in the blog',
+        content: 'Build static sites with Astro',
+        folder: 'blog'
+      });
+
+      await insertTestArticle({
+        slug: 'docs/astro',
+        title: 'Astro docs',
+        content: 'Build static sites with Astro',
+        folder: 'docs'
+      });
+
+      await insertTestArticle({
+        slug: 'docs/api/search',
+        title: 'Search API',
+        content: 'Query the search endpoint',
+        folder: 'docs/api',
+        tags: ['api']
+      });
+
+      const results = await search({
+        client,
+        query: 'astro static sites',
+        limit: 1,
+        filter: { folderPrefix: 'docs' },
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].slug).toBe('docs/astro');
+    }, 30000);
+
+    it('should filter by tags', async () => {
+      await insertTestArticle({
+        slug: 'tagged',
+        title: 'Tagged',
+        content: 'Content',
+        tags: ['api']
+      });
+
+      await insertTestArticle({
+        slug: 'untagged',
+        title: 'Untagged',
+        content: 'Content'
+      });
+
+      const results = await search({
+        client,
+        query: 'content',
+        filter: { tags: { any: ['api'] } },
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results.map(result => result.slug)).toEqual(['tagged']);
+    }, 30000);
+
+    it('should filter hybrid and chunk searches', async () => {
+      await insertTestArticle({
+        slug: 'blog/post',
+        title: 'Post',
+        content: 'Deploying Astro',
+        folder: 'blog'
+      });
+      await insertTestChunk({
+        slug: 'blog/post',
+        index: 0,
+        heading: 'Deploying',
+        content: 'Deploying Astro',
+        start: 0
+      });
+
+      const options = {
+        client,
+        query: 'deploy astro',
+        filter: { folder: 'docs' },
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 }
+      };
+
+      expect(await search({ ...options, mode: 'hybrid' })).toEqual([]);
+      expect(await search({ ...options, chunks: true })).toEqual([]);
+    }, 30000);
+  });
+
+  describe('search with the vector index', () => {
+    it('should return the same results approximately and exactly', async () => {
+      await insertTestArticle({
+        slug: 'astro-guide',
+        title: 'Astro Guide',
+        content: 'Learn how to build with Astro static site generator'
+      });
+
+      await insertTestArticle({
+        slug: 'react-tutorial',
+        title: 'React Tutorial',
+        content: 'Learn React components and hooks'
+      });
+
+      const options = {
+        client,
+        query: 'static site building',
+        embeddingOptions: { provider: 'local' as const, dimensions: 768 }
+      };
+
+      const approximate = await search(options);
+      const exact = await search({ ...options, exact: true });
+
+      expect(approximate.map(result => result.slug)).toEqual(exact.map(result => result.slug));
+      expect(approximate[0].distance).toBeCloseTo(exact[0].distance);
+    }, 30000);
+
+    it('should fall back to an exact scan when the index is missing', async () => {
+      await insertTestArticle({
+        slug: 'article',
+        title: 'Article',
+        content: 'Content'
+      });
+      await client.execute('DROP INDEX articles_embedding_idx');
+
+      const results = await search({
+        client,
+        query: 'content',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].slug).toBe('article');
+    }, 30000);
+  });
+
+  describe('search with chunks', () => {
+    it('should return the best matching chunk for each article', async () => {
+      await insertTestArticle({
+        slug: 'handbook',
+        title: 'Handbook',
+        content: 'Cooking recipes for pasta. Deploying Astro sites to the edge.'
+      });
+      await insertTestChunk({
+        slug: 'handbook',
+        index: 0,
+        heading: 'Cooking',
+        content: 'Cooking recipes for pasta.',
+        start: 0
+      });
+      await insertTestChunk({
+        slug: 'handbook',
+        index: 1,
+        heading: 'Deploying',
+        content: 'Deploying Astro sites to the edge.',
+        start: 27
+      });
+
+      const results = await search({
+        client,
+        query: 'deploy an astro site',
+        chunks: true,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].slug).toBe('handbook');
+      expect(results[0].chunk).toEqual({
+        index: 1,
+        content: 'Deploying Astro sites to the edge.',
+        heading: 'Deploying',
+        anchor: 'deploying',
+        start: 27,
+        end: 61
+      });
+    }, 30000);
+
+    it('should return empty array when no chunks exist', async () => {
+      const results = await search({
+        client,
+        query: 'anything',
+        chunks: true,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results).toEqual([]);
+    }, 30000);
+  });
+
+  describe('search snippets', () => {
+    beforeEach(async () => {
+      await insertTestArticle({
+        slug: 'handbook',
+        title: 'Handbook',
+        content: 'Cooking recipes for pasta. Deploying Astro sites to the edge.'
+      });
+      await insertTestChunk({
+        slug: 'handbook',
+        index: 1,
+        heading: 'Deploying',
+        content: 'Deploying Astro sites to the edge.',
+        start: 27
+      });
+    });
+
+    it('should return a highlighted snippet of the content', async () => {
+      const [result] = await search({
+        client,
+        query: 'astro sites',
+        snippet: { length: 40 },
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(result.snippet).toBe('…Deploying <mark>Astro</mark> <mark>sites</mark> to the edge.');
+      expect(result.content).toBe('Cooking recipes for pasta. Deploying Astro sites to the edge.');
+    }, 30000);
+
+    it('should take chunk snippets from the best chunk', async () => {
+      const [result] = await search({
+        client,
+        query: 'deploy astro',
+        chunks: true,
+        snippet: { highlightStart: '**', highlightEnd: '**' },
+        includeContent: false,
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(result.snippet).toBe('**Deploying** **Astro** sites to the edge.');
+      expect(result).not.toHaveProperty('content');
+    }, 30000);
+
+    it('should omit content without a snippet', async () => {
+      const [result] = await search({
+        client,
+        query: 'pasta',
+        includeContent: false,
+        mode: 'hybrid',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(result.slug).toBe('handbook');
+      expect(result).not.toHaveProperty('content');
+      expect(result).not.toHaveProperty('snippet');
+    }, 30000);
+  });
+
+  describe('hybrid search', () => {
+    it('should rank exact identifier matches with keyword search', async () => {
+      await insertTestArticle({
+        slug: 'errors',
+        title: 'Troubleshooting',
+        content: 'If you see ERR_MODULE_NOT_FOUND, check your import paths.'
+      });
+
+      await insertTestArticle({
+        slug: 'modules',
+        title: 'Modules',
+        content: 'How JavaScript modules are resolved and loaded.'
+      });
+
+      const results = await search({
+        client,
+        query: 'ERR_MODULE_NOT_FOUND',
+        mode: 'hybrid',
+        hybrid: { vectorWeight: 0.5, keywordWeight: 1 },
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results[0].slug).toBe('errors');
+      expect(results[0].bm25).toBeTypeOf('number');
+      expect(results[0].keywordScore).toBeGreaterThan(0);
+    }, 30000);
+
+    it('should return both component scores', async () => {
+      await insertTestArticle({
+        slug: 'astro-guide',
+        title: 'Astro Guide',
+        content: 'Deploy an Astro site'
+      });
+
+      const results = await search({
+        client,
+        query: 'astro deploy',
+        mode: 'hybrid',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].vectorScore).toBeCloseTo(1 / 61);
+      expect(results[0].keywordScore).toBeCloseTo(1 / 61);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(typeof results[0].distance).toBe('number');
+    }, 30000);
+
+    it('should ignore FTS query syntax in user input', async () => {
+      await insertTestArticle({
+        slug: 'article',
+        title: 'Article',
+        content: 'Content'
+      });
+
+      await expect(search({
+        client,
+        query: 'NEAR( "unbalanced * -',
+        mode: 'hybrid',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      })).resolves.toHaveLength(1);
+    }, 30000);
+
+    it('should throw a descriptive error without the FTS table', async () => {
+      const plain = createClient({ url: testDbUrl });
+      await createTable(plain, 'plain', 768);
+
+      await expect(search({
+        client: plain,
+        query: 'anything',
+        tableName: 'plain',
+        mode: 'hybrid',
+        embeddingOptions: { provider: 'local', dimensions: 768 }
+      })).rejects.toThrow('createTable with { fts: true }');
+    }, 30000);
+  });
+
+  describe('scores and pagination', () => {
+    // Every query embeds to the first axis; calls are counted
+    let calls = 0;
+    const provider: Embedder = {
+      modelId: 'fake:axis:3',
+      dimensions: 3,
+      embed: async () => {
+        calls++;
+        return [1, 0, 0];
+      },
+      embedBatch: async texts => texts.map(() => [1, 0, 0])
+    };
+    const embeddingOptions = { provider };
+
+    beforeEach(async () => {
+      calls = 0;
+      await createTable(client, 'pages', 3);
+
+      const vectors: Record<string, number[]> = {
+        one: [1, 0, 0],
+        two: [0.9, 0.1, 0],
+        three: [0.6, 0.4, 0],
+        four: [0.2, 0.8, 0],
+        five: [0, 0, 1]
+      };
+      for (const [slug, vector] of Object.entries(vectors)) {
+        await client.execute({
+          sql: `INSERT INTO pages (slug, title, content, folder, embedding, created_at, updated_at)
+                VALUES (?, ?, ?, 'root', vector(?), datetime('now'), datetime('now'))`,
+          args: [slug, slug, `About ${slug}`, JSON.stringify(vector)]
+        });
+      }
+    });
+
+    it('should score results from 0 to 1', async () => {
+      const results = await search({ client, query: 'q', tableName: 'pages', embeddingOptions });
+
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results.at(-1)!.slug).toBe('five');
+      expect(results.at(-1)!.score).toBeCloseTo(0);
+      for (const result of results) {
+        expect(result.score).toBeCloseTo(1 - result.distance);
+      }
+    });
+
+    it('should drop results below minScore or beyond maxDistance', async () => {
+      const byScore = await search({
+        client, query: 'q', tableName: 'pages', embeddingOptions, minScore: 0.8
+      });
+      const byDistance = await search({
+        client, query: 'q', tableName: 'pages', embeddingOptions, maxDistance: 0.5
+      });
+
+      expect(byScore.map(result => result.slug)).toEqual(['one', 'two', 'three']);
+      expect(byDistance.map(result => result.slug)).toEqual(['one', 'two', 'three']);
+      expect(await search({
+        client, query: 'q', tableName: 'pages', embeddingOptions, minScore: 1.5
+      })).toEqual([]);
+    });
+
+    it('should skip results with offset', async () => {
+      const first = await search({ client, query: 'q', tableName: 'pages', embeddingOptions, limit: 2 });
+      const second = await search({
+        client, query: 'q', tableName: 'pages', embeddingOptions, limit: 2, offset: 2
+      });
+
+      expect(first.map(result => result.slug)).toEqual(['one', 'two']);
+      expect(second.map(result => result.slug)).toEqual(['three', 'four']);
+      await expect(search({
+        client, query: 'q', tableName: 'pages', embeddingOptions, offset: -1
+      })).rejects.toThrow('offset must be a non-negative integer');
+    });
+
+    it('should page with cursors without embedding the query again', async () => {
+      const options = { client, query: 'q', tableName: 'pages', embeddingOptions, limit: 2 };
+
+      const first = await searchPage(options);
+      const second = await searchPage({ ...options, cursor: first.nextCursor! });
+      const third = await searchPage({ ...options, cursor: second.nextCursor! });
+
+      expect(first.results.map(result => result.slug)).toEqual(['one', 'two']);
+      expect(second.results.map(result => result.slug)).toEqual(['three', 'four']);
+      expect(third.results.map(result => result.slug)).toEqual(['five']);
+      expect(third.nextCursor).toBeNull();
+      expect(calls).toBe(1);
+    });
+
+    it('should reuse cached query embeddings', async () => {
+      const queryCache = createMemoryCache();
+      const options = { client, query: 'q', tableName: 'pages', embeddingOptions, queryCache };
+
+      const first = await search(options);
+      const second = await search({ ...options, query: '  q ' });
+
+      expect(second).toEqual(first);
+      expect(calls).toBe(1);
+    });
+
+    it('should reject cursors for another query', async () => {
+      const options = { client, query: 'q', tableName: 'pages', embeddingOptions, limit: 2 };
+      const { nextCursor } = await searchPage(options);
+
+      await expect(searchPage({ ...options, query: 'other', cursor: nextCursor! }))
+        .rejects.toThrow('Search cursor belongs to a different query');
+      await expect(searchPage({ ...options, cursor: 'not-a-cursor' }))
+        .rejects.toThrow('Invalid search cursor');
+    });
+  });
+
+  describe('findSimilar', () => {
+    // Stored vectors are written directly, since no provider is involved
+    async function insertWithEmbedding(slug: string, folder: string, values: number[]) {
+      const embedding = [...values, ...new Array(768 - values.length).fill(0)];
+
+      await client.execute({
+        sql: `INSERT INTO articles (slug, title, content, folder, embedding, created_at, updated_at)
+              VALUES (?, ?, ?, ?, vector(?), datetime('now'), datetime('now'))`,
+        args: [slug, slug, `About ${slug}`, folder, JSON.stringify(embedding)]
+      });
+    }
+
+    beforeEach(async () => {
+      await insertWithEmbedding('astro', 'root', [1, 0, 0]);
+      await insertWithEmbedding('astro-deploy', 'guides', [0.9, 0.1, 0]);
+      await insertWithEmbedding('svelte', 'root', [0.5, 0.5, 0]);
+      await insertWithEmbedding('cooking', 'root', [0, 0, 1]);
+    });
+
+    it('should rank other articles by their stored embeddings', async () => {
+      const results = await findSimilar(client, 'astro');
+
+      expect(results.map(result => result.slug)).toEqual(['astro-deploy', 'svelte', 'cooking']);
+      expect(results[0].distance).toBeLessThan(results[1].distance);
+    });
+
+    it('should apply the limit and filter', async () => {
+      expect((await findSimilar(client, 'astro', { limit: 1 })).map(result => result.slug))
+        .toEqual(['astro-deploy']);
+      expect((await findSimilar(client, 'astro', { filter: { folder: 'root' } })).map(result => result.slug))
+        .toEqual(['svelte', 'cooking']);
+    });
+
+    it('should omit content when asked', async () => {
+      const [result] = await findSimilar(client, 'astro', { includeContent: false });
+
+      expect(result.slug).toBe('astro-deploy');
+      expect(result).not.toHaveProperty('content');
+    });
+
+    it('should return empty array for unknown slugs', async () => {
+      expect(await findSimilar(client, 'missing')).toEqual([]);
+    });
+  });
+
+  describe('tables from earlier releases', () => {
+    const embeddingOptions = { provider: createLetterEmbedder() };
+
+    beforeEach(async () => {
+      await client.execute(`
+        CREATE TABLE legacy (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          slug TEXT UNIQUE NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          folder TEXT NOT NULL DEFAULT 'root',
+          tags TEXT DEFAULT '[]',
+          embedding F32_BLOB(4),
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await client.execute(`
+        INSERT INTO legacy (slug, title, content, embedding, created_at, updated_at)
+        VALUES ('big', 'Big', 'aaaa e', vector('[4, 1, 0, 0]'), datetime('now'), datetime('now'))
+      `);
+    });
+
+    it('should read the columns they lack as stand-ins', async () => {
+      const [result] = await search({ client, query: 'aaaa', tableName: 'legacy', embeddingOptions });
+      expect(result).toMatchObject({ slug: 'big', metadata: {}, description: null, published_at: null });
+
+      expect((await getArticleBySlug(client, 'big', 'legacy'))?.metadata).toEqual({});
+      expect(await getAllArticles(client, 'legacy')).toHaveLength(1);
+      expect(await findSimilar(client, 'big', { tableName: 'legacy' })).toEqual([]);
+    });
+
+    it('should point filters on missing columns at migrate', async () => {
+      await expect(search({
+        client,
+        query: 'aaaa',
+        tableName: 'legacy',
+        embeddingOptions,
+        filter: { publishedAt: { from: '2024-01-01' } }
+      })).rejects.toThrow('requires a published_at column, which the table lacks. Add it with migrate().');
+    });
+  });
+
   describe('getAllArticles', () => {
     it('should return all articles', async () => {
       await insertTestArticle({
@@ -176,6 +755,8 @@ describe('search', () => {
       expect(articles[0]).toHaveProperty('title');
       expect(articles[0]).toHaveProperty('created_at');
       expect(articles[0]).toHaveProperty('updated_at');
+      expect(articles[0]).toHaveProperty('metadata');
+      expect(articles[0]).toHaveProperty('description');
     }, 30000);
 
     it('should order articles by title', async () => {
@@ -214,6 +795,19 @@ describe('search', () => {
       expect(article?.content).toBe('Test content');
     }, 30000);
 
+    it('should return frontmatter metadata', async () => {
+      await insertTestArticle({
+        slug: 'test-article',
+        title: 'Test Article',
+        content: 'Test content',
+        metadata: { draft: true }
+      });
+
+      const article = await getArticleBySlug(client, 'test-article');
+
+      expect(article?.metadata).toEqual({ draft: true });
+    }, 30000);
+
     it('should return null for non-existent slug', async () => {
       const article = await getArticleBySlug(client, 'non-existent');
 
@@ -242,6 +836,7 @@ describe('search', () => {
       expect(articles).toHaveLength(1);
       expect(articles[0].folder).toBe('docs');
       expect(articles[0].title).toBe('Guide');
+      expect(articles[0].metadata).toEqual({});
     }, 30000);
 
     it('should return empty array for non-existent folder', async () => {
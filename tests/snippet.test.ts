@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createSnippet, escapeHtml } from '../src/snippet.js';
+
+describe('snippet', () => {
+  const article = [
+    '# Getting Started',
+    '',
+    'This guide walks through the basics. It assumes no prior knowledge.',
+    '',
+    '## Vector Indexes',
+    '',
+    'Turso stores embeddings in F32_BLOB columns. A vector index speeds up nearest neighbour queries.',
+    '',
+    '## Deployment',
+    '',
+    'Deploy the site with any static host.'
+  ].join('\n');
+
+  it('should pick the passage matching the most query terms', () => {
+    const snippet = createSnippet(article, 'vector index', { length: 120 });
+
+    expect(snippet).toBe(
+      '…<mark>Vector</mark> <mark>Indexes</mark> Turso stores embeddings in F32_BLOB columns. ' +
+      'A <mark>vector</mark> <mark>index</mark> speeds up nearest neighbour queries.…'
+    );
+  });
+
+  it('should highlight words starting with a query term', () => {
+    const snippet = createSnippet('Indexing builds indexes.', 'index', { length: 100 });
+
+    expect(snippet).toBe('<mark>Indexing</mark> builds <mark>indexes</mark>.');
+  });
+
+  it('should fall back to the opening sentences', () => {
+    const snippet = createSnippet(article, 'kubernetes', { length: 60 });
+
+    expect(snippet).toBe('Getting Started This guide walks through the basics.…');
+  });
+
+  it('should crop long sentences around the first match', () => {
+    const text = `${'lorem '.repeat(40)}needle ${'ipsum '.repeat(40)}`;
+    const snippet = createSnippet(text, 'needle', { length: 60 });
+
+    expect(snippet.startsWith('…lorem')).toBe(true);
+    expect(snippet.endsWith('ipsum…')).toBe(true);
+    expect(snippet).toContain('<mark>needle</mark>');
+    expect(snippet.replace(/<\/?mark>|…/g, '').length).toBeLessThanOrEqual(60);
+  });
+
+  it('should strip markdown syntax', () => {
+    const snippet = createSnippet(
+      'See the **[docs](https://example.com)** and `createTable`.\n\n```ts\nconst x = 1;\n```',
+      'docs'
+    );
+
+    expect(snippet).toBe('See the <mark>docs</mark> and createTable. const x = 1;');
+  });
+
+  it('should use custom markers and escaping', () => {
+    const snippet = createSnippet('Use <b>bold</b> & search', 'search', {
+      highlightStart: '[',
+      highlightEnd: ']',
+      escape: text => text
+    });
+
+    expect(snippet).toBe('Use bold & [search]');
+    expect(createSnippet('a < b search', 'search')).toBe('a &lt; b <mark>search</mark>');
+    expect(escapeHtml(`"x" & 'y'`)).toBe('&quot;x&quot; &amp; &#39;y&#39;');
+  });
+
+  it('should reject a non-positive length', () => {
+    expect(() => createSnippet(article, 'vector', { length: 0 })).toThrow(
+      'Snippet length must be greater than 0'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm, utimes } from 'fs/promises';
+import { join } from 'path';
+import { createFileSource, createMemorySource, type ContentSource } from '../src/sources.js';
+
+describe('sources', () => {
+  const testDir = join(process.cwd(), 'test-sources');
+
+  async function collect(source: ContentSource) {
+    const documents = [];
+    for await (const document of source.documents()) {
+      documents.push(document);
+    }
+    return documents.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  beforeEach(async () => {
+    await mkdir(join(testDir, 'guides'), { recursive: true });
+    await mkdir(join(testDir, 'drafts'), { recursive: true });
+    await mkdir(join(testDir, '.hidden'), { recursive: true });
+    await writeFile(join(testDir, 'index.md'), '# Home');
+    await writeFile(join(testDir, 'guides', 'install.md'), '# Install');
+    await writeFile(join(testDir, 'guides', 'notes.txt'), 'notes');
+    await writeFile(join(testDir, 'drafts', 'wip.md'), '# WIP');
+    await writeFile(join(testDir, '.hidden', 'secret.md'), '# Secret');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('createFileSource', () => {
+    it('should read matching files with their modification time', async () => {
+      const modified = new Date('2024-05-01T12:00:00Z');
+      await utimes(join(testDir, 'index.md'), modified, modified);
+
+      const documents = await collect(createFileSource({ contentPath: testDir, exclude: ['drafts'] }));
+
+      expect(documents.map(document => document.path)).toEqual(['guides/install.md', 'index.md']);
+      expect(documents[1]).toEqual({ id: 'index.md', path: 'index.md', raw: '# Home', lastModified: modified });
+    });
+
+    it('should only read the given paths', async () => {
+      const documents = await collect(createFileSource({
+        contentPath: testDir,
+        fileExtensions: ['.md', '.txt'],
+        paths: ['guides', 'index.md', 'missing.md', '.hidden/secret.md']
+      }));
+
+      expect(documents.map(document => document.id)).toEqual(['guides/install.md', 'guides/notes.txt', 'index.md']);
+    });
+  });
+
+  describe('createMemorySource', () => {
+    it('should default ids to paths', async () => {
+      const documents = await collect(createMemorySource([
+        { path: 'a.md', raw: '# A' },
+        { id: 'entry-2', path: 'b.md', raw: '# B' }
+      ]));
+
+      expect(documents.map(document => document.id)).toEqual(['a.md', 'entry-2']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { createTable } from '../src/indexer.js';
+import {
+  assertVectorType,
+  getVectorStorage,
+  vectorColumnType,
+  vectorFunction
+} from '../src/vectors.js';
+
+describe('vectors', () => {
+  let client: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+  });
+
+  it('should map vector types to column types and conversions', () => {
+    expect(vectorColumnType('F32', 768)).toBe('F32_BLOB(768)');
+    expect(vectorColumnType('F1BIT', 384)).toBe('F1BIT_BLOB(384)');
+    expect(vectorFunction('F32')).toBe('vector');
+    expect(vectorFunction('F16')).toBe('vector16');
+    expect(vectorFunction('F8')).toBe('vector8');
+    expect(vectorFunction('F1BIT')).toBe('vector1bit');
+  });
+
+  it('should reject unknown vector types', () => {
+    expect(() => assertVectorType('F4')).toThrow('Unknown vector type: F4');
+    expect(() => assertVectorType('toString')).toThrow('Unknown vector type');
+  });
+
+  it('should read the storage of a table', async () => {
+    await createTable(client, 'articles', 4);
+    await createTable(client, 'compressed', 8, { vectorType: 'F8', rescore: true });
+
+    expect(await getVectorStorage(client, 'articles'))
+      .toEqual({ type: 'F32', dimensions: 4, rescore: false });
+    expect(await getVectorStorage(client, 'compressed'))
+      .toEqual({ type: 'F8', dimensions: 8, rescore: true });
+    expect(await getVectorStorage(client, 'missing')).toBeNull();
+  });
+
+  it('should add float32 copies to an existing compressed table', async () => {
+    await createTable(client, 'articles', 4, { vectorType: 'F16', chunks: true });
+    await createTable(client, 'articles', 4, { vectorType: 'F16', chunks: true, rescore: true });
+
+    expect(await getVectorStorage(client, 'articles'))
+      .toEqual({ type: 'F16', dimensions: 4, rescore: true });
+
+    const columns = await client.execute('PRAGMA table_info(articles_chunks)');
+    expect(columns.rows.map(row => row.name)).toContain('embedding_full');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { mkdir, writeFile, rename, rm } from 'fs/promises';
+import { join } from 'path';
+import { createTable, indexContent } from '../src/indexer.js';
+import { watchContent, type ContentWatcher, type WatchUpdate } from '../src/watcher.js';
+import { createLetterEmbedder } from './helpers.js';
+
+describe('watcher', () => {
+  let client: ReturnType<typeof createClient>;
+  let watcher: ContentWatcher | null;
+  let updates: WatchUpdate[];
+  const embedded: string[] = [];
+  const testDir = join(process.cwd(), 'test-watch');
+
+  const provider = createLetterEmbedder({ record: embedded });
+
+  async function slugs(): Promise<string[]> {
+    const result = await client.execute('SELECT slug FROM articles ORDER BY slug');
+    return result.rows.map(row => row.slug as string);
+  }
+
+  // Resolves with the next update, after the watcher's debounce
+  let waiting: ((update: WatchUpdate) => void) | null = null;
+  function nextUpdate(): Promise<WatchUpdate> {
+    return new Promise(resolve => {
+      waiting = resolve;
+    });
+  }
+
+  function start() {
+    watcher = watchContent({
+      client,
+      contentPath: testDir,
+      embeddingOptions: { provider },
+      debounce: 50,
+      onUpdate: update => {
+        updates.push(update);
+        waiting?.(update);
+      }
+    });
+  }
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:' });
+    watcher = null;
+    updates = [];
+    embedded.length = 0;
+    await mkdir(join(testDir, 'guides'), { recursive: true });
+    await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa e');
+    await writeFile(join(testDir, 'guides', 'sky.md'), '---\ntitle: Sky\n---\na eeee');
+    await createTable(client, 'articles', 4);
+    await indexContent({ client, contentPath: testDir, embeddingOptions: { provider } });
+    embedded.length = 0;
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should re-embed only the changed file', async () => {
+    start();
+    const update = nextUpdate();
+    await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa ooo');
+
+    expect(await update).toMatchObject({ paths: ['big.md'], result: { updated: 1, total: 1 } });
+    expect(embedded).toHaveLength(1);
+    expect(embedded[0]).toContain('ooo');
+  });
+
+  it('should debounce a burst of changes into one update', async () => {
+    start();
+    const update = nextUpdate();
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo');
+    await writeFile(join(testDir, 'moon.md'), '---\ntitle: Moon\n---\noooo u');
+    await writeFile(join(testDir, 'big.md'), '---\ntitle: Big\n---\naaaa ooo');
+
+    const { result } = await update;
+    expect(result).toMatchObject({ added: 1, updated: 1 });
+    expect(updates).toHaveLength(1);
+    expect(await slugs()).toEqual(['big', 'guides/sky', 'moon']);
+  });
+
+  it('should handle renames and deletes', async () => {
+    start();
+    let update = nextUpdate();
+    await rename(join(testDir, 'big.md'), join(testDir, 'large.md'));
+
+    expect((await update).result).toMatchObject({ added: 1, deleted: 1 });
+    expect(await slugs()).toEqual(['guides/sky', 'large']);
+
+    update = nextUpdate();
+    await rm(join(testDir, 'guides'), { recursive: true });
+
+    expect((await update).result).toMatchObject({ deleted: 1 });
+    expect(await slugs()).toEqual(['large']);
+  });
+
+  it('should remove the rows of a directory with a dot in its name', async () => {
+    await mkdir(join(testDir, 'v1.2'));
+    await writeFile(join(testDir, 'v1.2', 'moon.md'), '---\ntitle: Moon\n---\noooo');
+    await indexContent({ client, contentPath: testDir, embeddingOptions: { provider }, incremental: true });
+
+    // Moving it out reports only the directory, not the files in it
+    start();
+    const update = nextUpdate();
+    await rename(join(testDir, 'v1.2'), join(testDir, '..', 'test-watch-moved'));
+
+    try {
+      expect((await update).result).toMatchObject({ deleted: 1 });
+      expect(await slugs()).toEqual(['big', 'guides/sky']);
+    } finally {
+      await rm(join(testDir, '..', 'test-watch-moved'), { recursive: true, force: true });
+    }
+  });
+
+  it('should ignore other files and excluded directories', async () => {
+    start();
+    await mkdir(join(testDir, 'node_modules'));
+    await writeFile(join(testDir, 'node_modules', 'readme.md'), 'ignored');
+    await writeFile(join(testDir, 'notes.txt'), 'ignored');
+    await writeFile(join(testDir, 'big.md~'), 'ignored');
+
+    const update = nextUpdate();
+    await writeFile(join(testDir, 'guides', 'sky.md'), '---\ntitle: Sky\n---\na eeee u');
+
+    expect((await update).paths).toEqual(['guides/sky.md']);
+    expect(await slugs()).toEqual(['big', 'guides/sky']);
+  });
+
+  it('should validate the debounce', () => {
+    expect(() => watchContent({ client, contentPath: testDir, debounce: -1 }))
+      .toThrow('debounce must be a non-negative number of milliseconds');
+  });
+});